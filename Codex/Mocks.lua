@@ -0,0 +1,3196 @@
+-- Mocks for the Dual Universe API, generated from the Codex, requires lua/Mocks.lua
+
+Mock.define('Adjustor', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getObstructionFactor = { 'number' },
+    getTags = { 'string' },
+    setTags = { 'boolean' },
+    isIgnoringTags = { 'boolean' },
+    activate = {},
+    deactivate = {},
+    isActive = { 'boolean' },
+    getState = {},
+    toggle = {},
+    setThrust = {},
+    getThrust = { 'number' },
+    getMaxThrust = { 'number' },
+    getMaxThrustBase = {},
+    getThrustAxis = { 'table' },
+    getTorqueAxis = { 'table' },
+    getWorldThrustAxis = { 'table' },
+    thrustAxis = {},
+    getWorldTorqueAxis = { 'table' },
+    torqueAxis = {},
+    isOutOfFuel = {},
+    hasFunctionalFuelTank = {},
+    getCurrentFuelRate = {},
+    getFuelRateEfficiency = {},
+    getFuelConsumption = {},
+    getDistance = {},
+    getT50 = {},
+  },
+  events = {},
+})
+
+Mock.define('Airbrake', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getObstructionFactor = { 'number' },
+    getTags = { 'string' },
+    setTags = { 'boolean' },
+    isIgnoringTags = { 'boolean' },
+    activate = {},
+    deactivate = {},
+    isActive = { 'boolean' },
+    getState = {},
+    toggle = {},
+    setThrust = {},
+    getThrust = { 'number' },
+    getMaxThrust = {},
+    getMaxThrustBase = {},
+    getCurrentMinThrust = { 'number' },
+    getMinThrust = {},
+    getCurrentMaxThrust = { 'number' },
+    getMaxThrustEfficiency = { 'number' },
+    getThrustAxis = { 'table' },
+    getWorldThrustAxis = { 'table' },
+    thrustAxis = {},
+    isOutOfFuel = {},
+    hasFunctionalFuelTank = {},
+    getCurrentFuelRate = {},
+    getFuelRateEfficiency = {},
+    getFuelConsumption = {},
+    getDistance = {},
+    getT50 = {},
+    torqueAxis = {},
+  },
+  events = {},
+})
+
+Mock.define('Airfoil', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getObstructionFactor = { 'number' },
+    getTags = { 'string' },
+    setTags = { 'boolean' },
+    isIgnoringTags = { 'boolean' },
+    getLift = { 'number' },
+    getThrust = {},
+    getMaxLift = { 'number' },
+    getMaxThrustBase = {},
+    getDrag = { 'number' },
+    getDragRatio = { 'number' },
+    getCurrentMinLift = { 'number' },
+    getMinThrust = {},
+    getCurrentMaxLift = { 'number' },
+    getMaxThrust = {},
+    getMaxLiftEfficiency = { 'number' },
+    getMaxThrustEfficiency = {},
+    getLiftAxis = { 'table' },
+    getTorqueAxis = { 'table' },
+    getWorldLiftAxis = { 'table' },
+    thrustAxis = {},
+    getWorldTorqueAxis = { 'table' },
+    torqueAxis = {},
+    isStalled = { 'boolean' },
+    getStallAngle = { 'number' },
+    getMinAngle = { 'number' },
+    getMaxAngle = { 'number' },
+    activate = {},
+    deactivate = {},
+    getState = {},
+    toggle = {},
+    setThrust = {},
+    isOutOfFuel = {},
+    hasFunctionalFuelTank = {},
+    getCurrentFuelRate = {},
+    getFuelRateEfficiency = {},
+    getFuelConsumption = {},
+    getDistance = {},
+    getT50 = {},
+  },
+  events = {},
+})
+
+Mock.define('AntiGravityGenerator', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    activate = {},
+    deactivate = {},
+    isActive = { 'boolean' },
+    getState = {},
+    toggle = {},
+    getFieldStrength = { 'number' },
+    getCompensationRate = { 'number' },
+    getFieldPower = { 'number' },
+    getPulsorCount = { 'integer' },
+    setTargetAltitude = {},
+    setBaseAltitude = {},
+    getTargetAltitude = { 'number' },
+    getBaseAltitude = { 'number' },
+  },
+  events = {},
+})
+
+Mock.define('AtmosphericEngine', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getObstructionFactor = { 'number' },
+    getTags = { 'string' },
+    setTags = { 'boolean' },
+    isIgnoringTags = { 'boolean' },
+    activate = {},
+    deactivate = {},
+    isActive = { 'boolean' },
+    getState = {},
+    toggle = {},
+    setThrust = {},
+    getThrust = { 'number' },
+    getMaxThrust = {},
+    getMaxThrustBase = {},
+    getCurrentMinThrust = { 'number' },
+    getMinThrust = {},
+    getCurrentMaxThrust = { 'number' },
+    getMaxThrustEfficiency = { 'number' },
+    isTorqueEnabled = { 'boolean' },
+    enableTorque = {},
+    getThrustAxis = { 'table' },
+    getTorqueAxis = { 'table' },
+    getWorldThrustAxis = { 'table' },
+    thrustAxis = {},
+    getWorldTorqueAxis = { 'table' },
+    torqueAxis = {},
+    isOutOfFuel = { 'boolean' },
+    getFuelId = { 'integer' },
+    getFuelTankId = { 'integer' },
+    hasFunctionalFuelTank = { 'boolean' },
+    hasBrokenFuelTank = {},
+    getCurrentFuelRate = { 'number' },
+    getFuelRateEfficiency = { 'number' },
+    getFuelConsumption = { 'number' },
+    getWarmupTime = { 'number' },
+    getT50 = {},
+    getDistance = {},
+  },
+  events = {},
+})
+
+Mock.define('BaseShieldGenerator', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    activate = {},
+    deactivate = {},
+    toggle = {},
+    getState = { 'integer' },
+    getShieldHitpoints = { 'number' },
+    getMaxShieldHitpoints = { 'number' },
+    getResistances = { 'table' },
+    setResistances = { 'boolean' },
+    getResistancesCooldown = { 'number' },
+    getResistancesMaxCooldown = { 'number' },
+    getResistancesPool = { 'number' },
+    getResistancesRemaining = { 'number' },
+    getStressRatio = { 'table' },
+    getStressRatioRaw = { 'table' },
+    getStressHitpoints = { 'number' },
+    getStressHitpointsRaw = { 'number' },
+    inLockdown = { 'boolean' },
+    getLockdownRemaining = { 'number' },
+    getLockdownExitTime = { 'integer' },
+    setLockdownExitTime = { 'boolean' },
+  },
+  events = { 'onToggled', 'toggled', 'onAbsorbed', 'absorbed', 'onDown', 'down', 'onRestored', 'restored', 'onEnterLockdown', 'enterLockdown', 'onLeaveLockdown', 'leaveLockdown' },
+})
+
+Mock.define('BrakeEngine', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getObstructionFactor = { 'number' },
+    getTags = { 'string' },
+    setTags = { 'boolean' },
+    isIgnoringTags = { 'boolean' },
+    activate = {},
+    deactivate = {},
+    isActive = { 'boolean' },
+    getState = {},
+    toggle = {},
+    setThrust = {},
+    getThrust = { 'number' },
+    getMaxThrust = {},
+    getMaxThrustBase = {},
+    getCurrentMinThrust = { 'number' },
+    getMinThrust = {},
+    getCurrentMaxThrust = { 'number' },
+    getMaxThrustEfficiency = { 'number' },
+    getThrustAxis = { 'table' },
+    getWorldThrustAxis = { 'table' },
+    thrustAxis = {},
+    isOutOfFuel = {},
+    hasFunctionalFuelTank = {},
+    getCurrentFuelRate = {},
+    getFuelRateEfficiency = {},
+    getFuelConsumption = {},
+    getDistance = {},
+    getT50 = {},
+    torqueAxis = {},
+  },
+  events = {},
+})
+
+Mock.define('Construct', {
+  methods = {
+    getName = { 'string' },
+    getId = { 'integer' },
+    getOwner = { 'table' },
+    getCreator = { 'integer' },
+    getSchematicContainerId = { 'interger' },
+    isWarping = { 'boolean' },
+    getWarpState = { 'integer' },
+    isInPvPZone = { 'boolean' },
+    getDistanceToSafeZone = { 'number' },
+    getPvPTimer = { 'number' },
+    getMass = { 'number' },
+    getTotalMass = { 'number' },
+    getInertialMass = { 'number' },
+    getInertialTensor = { 'table' },
+    getCenterOfMass = { 'table' },
+    getWorldCenterOfMass = { 'table' },
+    getCrossSection = { 'number' },
+    getSize = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getMaxSpeed = { 'number' },
+    getMaxAngularSpeed = { 'number' },
+    getMaxSpeedPerAxis = { 'table' },
+    getMaxThrustAlongAxis = { 'table' },
+    getCurrentBrake = { 'number' },
+    getMaxBrake = { 'number' },
+    getWorldPosition = { 'table' },
+    getVelocity = { 'table' },
+    getWorldVelocity = { 'table' },
+    getAbsoluteVelocity = { 'table' },
+    getWorldAbsoluteVelocity = { 'table' },
+    getAcceleration = { 'table' },
+    getWorldAcceleration = { 'table' },
+    getAngularVelocity = { 'table' },
+    getWorldAngularVelocity = { 'table' },
+    getAngularAcceleration = { 'table' },
+    getWorldAngularAcceleration = { 'table' },
+    getWorldAirFrictionAcceleration = { 'table' },
+    getWorldAirFrictionAngularAcceleration = { 'table' },
+    getFrictionBurnSpeed = { 'number' },
+    getForward = { 'table' },
+    getRight = { 'table' },
+    getUp = { 'table' },
+    getWorldForward = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldUp = { 'table' },
+    getOrientationUnitId = { 'integer' },
+    getOrientationForward = { 'table' },
+    getOrientationRight = { 'table' },
+    getOrientationUp = { 'table' },
+    getWorldOrientationForward = { 'table' },
+    getWorldOrientationRight = { 'table' },
+    getWorldOrientationUp = { 'table' },
+    getParent = { 'integer' },
+    getClosestParent = { 'integer' },
+    getCloseParents = { 'table' },
+    getParentPosition = { 'table' },
+    getParentWorldPosition = { 'table' },
+    getParentForward = { 'table' },
+    getParentRight = { 'table' },
+    getParentUp = { 'table' },
+    getParentWorldForward = { 'table' },
+    getParentWorldRight = { 'table' },
+    getParentWorldUp = { 'table' },
+    getPlayersOnBoard = { 'table' },
+    getPlayersOnBoardInVRStation = { 'table' },
+    isPlayerBoarded = { 'boolean' },
+    isPlayerBoardedInVRStation = { 'boolean' },
+    getBoardedPlayerMass = { 'number' },
+    getBoardedInVRStationAvatarMass = { 'number' },
+    getDockedConstructs = { 'table' },
+    isConstructDocked = { 'boolean' },
+    getDockedConstructMass = { 'number' },
+    setDockingMode = { 'boolean' },
+    getDockingMode = { 'integer' },
+    dock = { 'boolean' },
+    undock = { 'boolean' },
+    forceDeboard = { 'boolean' },
+    forceUndock = { 'boolean' },
+    forceInterruptVRSession = { 'boolean' },
+  },
+  events = { 'onDocked', 'onUndocked', 'onPlayerBoarded', 'onVRStationEntered', 'onConstructDocked', 'onPvPTimer' },
+})
+
+Mock.define('Container', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getSelfMass = { 'number' },
+    getItemsMass = { 'number' },
+    getItemsVolume = { 'number' },
+    getMaxVolume = { 'number' },
+    getContent = { 'table' },
+    getItemsList = {},
+    updateContent = { 'number' },
+    acquireStorage = {},
+  },
+  events = { 'onContentUpdate', 'storageAcquired' },
+})
+
+Mock.define('ControlUnit', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    exit = {},
+    getMasterPlayerId = {},
+    getMasterPlayerOrgIds = {},
+    getMasterPlayerPosition = {},
+    getMasterPlayerWorldPosition = {},
+    getMasterPlayerForward = {},
+    getMasterPlayerUp = {},
+    getMasterPlayerRight = {},
+    getMasterPlayerWorldForward = {},
+    getMasterPlayerWorldUp = {},
+    getMasterPlayerWorldRight = {},
+    isMasterPlayerSeated = {},
+    getMasterPlayerSeatId = {},
+    getMasterPlayerParent = {},
+    getMasterPlayerMass = {},
+    setTimer = {},
+    stopTimer = {},
+    getAtmosphereDensity = { 'number' },
+    getClosestPlanetInfluence = { 'number' },
+    hasDRM = { 'boolean' },
+    isRemoteControlled = { 'boolean' },
+    setEngineCommand = {},
+    setEngineThrust = {},
+    getEngineThrust = { 'table' },
+    setAxisCommandValue = {},
+    getAxisCommandValue = { 'number' },
+    setupAxisCommandProperties = {},
+    getControlMode = { 'integer' },
+    getControlMasterModeId = {},
+    cancelCurrentControlMasterMode = {},
+    isMouseControlActivated = { 'boolean' },
+    isMouseDirectControlActivated = { 'boolean' },
+    isMouseVirtualJoystickActivated = { 'boolean' },
+    activateGroundEngineAltitudeStabilization = {},
+    getSurfaceEngineAltitudeStabilization = { 'number' },
+    deactivateGroundEngineAltitudeStabilization = {},
+    computeGroundEngineAltitudeStabilizationCapabilities = { 'table' },
+    getThrottle = { 'number' },
+    setWidgetControlModeLabel = {},
+    setupControlMasterModeProperties = {},
+    isAnyLandingGearDeployed = { 'boolean' },
+    isAnyLandingGearExtended = {},
+    deployLandingGears = {},
+    extendLandingGears = {},
+    retractLandingGears = {},
+    isAnyHeadlightSwitchedOn = { 'boolean' },
+    switchOnHeadlights = {},
+    switchOffHeadlights = {},
+  },
+  events = { 'onTimer', 'tick' },
+})
+
+Mock.define('CoreUnit', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getConstructId = {},
+    getConstructName = {},
+    getConstructWorldPos = {},
+    getWorldAirFrictionAcceleration = {},
+    getWorldAirFrictionAngularAcceleration = {},
+    getSchematicInfo = {},
+    getAngularVelocity = {},
+    getWorldAngularVelocity = {},
+    getAngularAcceleration = {},
+    getWorldAngularAcceleration = {},
+    getVelocity = {},
+    getWorldVelocity = {},
+    getAbsoluteVelocity = {},
+    getWorldAbsoluteVelocity = {},
+    getWorldAcceleration = {},
+    getAcceleration = {},
+    getOrientationUnitId = {},
+    getConstructOrientationUp = {},
+    getConstructOrientationRight = {},
+    getConstructOrientationForward = {},
+    getConstructWorldOrientationUp = {},
+    getConstructWorldOrientationRight = {},
+    getConstructWorldOrientationForward = {},
+    getConstructWorldUp = {},
+    getConstructWorldRight = {},
+    getConstructWorldForward = {},
+    getPvPTimer = {},
+    getPlayersOnBoard = {},
+    getPlayersOnBoardInVRStation = {},
+    getDockedConstructs = {},
+    isPlayerBoarded = {},
+    isPlayerBoardedInVRStation = {},
+    isConstructDocked = {},
+    forceDeboard = {},
+    forceInterruptVRSession = {},
+    forceUndock = {},
+    getBoardedPlayerMass = {},
+    getBoardedInVRStationAvatarMass = {},
+    getDockedConstructMass = {},
+    getParent = {},
+    getCloseParents = {},
+    getClosestParent = {},
+    dock = {},
+    undock = {},
+    setDockingMode = {},
+    getDockingMode = {},
+    getParentPosition = {},
+    getParentWorldPosition = {},
+    getParentForward = {},
+    getParentUp = {},
+    getParentRight = {},
+    getParentWorldForward = {},
+    getParentWorldUp = {},
+    getParentWorldRight = {},
+    getMaxSpeed = {},
+    getMaxAngularSpeed = {},
+    getMaxSpeedPerAxis = {},
+    getConstructMass = {},
+    getConstructIMass = {},
+    getConstructCrossSection = {},
+    getMaxKinematicsParametersAlongAxis = {},
+    getElementIdList = { 'table' },
+    getElementNameById = { 'string' },
+    getElementClassById = { 'string' },
+    getElementClassIdById = { 'integer' },
+    getElementDisplayNameById = { 'string' },
+    getElementTypeById = {},
+    getElementItemIdById = { 'integer' },
+    getElementHitPointsById = { 'number' },
+    getElementMaxHitPointsById = { 'number' },
+    getElementRestorationsById = { 'integer' },
+    getElementMaxRestorationsById = { 'integer' },
+    getElementMassById = { 'number' },
+    getElementPositionById = { 'table' },
+    getElementUpById = { 'table' },
+    getElementRightById = { 'table' },
+    getElementForwardById = { 'table' },
+    getElementIndustryInfoById = { 'table' },
+    getElementIndustryStatusById = {},
+    getElementInPlugsById = { 'table' },
+    getElementOutPlugsById = { 'table' },
+    getEngineTagsById = { 'string' },
+    getElementTagsById = {},
+    setEngineTagsById = { 'boolean' },
+    setEngineTorqueById = {},
+    getEngineTorqueById = { 'boolean' },
+    isEngineIgnoringTagsById = { 'boolean' },
+    getAltitude = { 'number' },
+    getGravityIntensity = { 'number' },
+    g = {},
+    getWorldGravity = { 'table' },
+    getWorldVertical = { 'table' },
+    getCurrentPlanetId = { 'integer' },
+    getCoreStress = { 'number' },
+    getMaxCoreStress = { 'number' },
+    getCoreStressRatio = { 'number' },
+    spawnNumberSticker = { 'integer' },
+    spawnArrowSticker = { 'integer' },
+    deleteSticker = { 'boolean' },
+    moveSticker = { 'boolean' },
+    rotateSticker = { 'boolean' },
+  },
+  events = { 'pvpTimer', 'playerBoarded', 'VRStationEntered', 'constructDocked', 'docked', 'undocked', 'onStressChanged', 'stressChanged', 'onElementBroken', 'onElementRestored', 'onElementDamaged', 'onElementRepaired' },
+})
+
+Mock.define('Counter', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getIndex = { 'integer' },
+    getCounterState = {},
+    getMaxIndex = { 'integer' },
+    nextIndex = {},
+    next = {},
+    setIndex = {},
+  },
+  events = {},
+})
+
+Mock.define('Databank', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    clear = {},
+    getNbKeys = { 'integer' },
+    getKeyList = { 'table' },
+    getKeys = {},
+    hasKey = { 'boolean' },
+    clearValue = { 'boolean' },
+    setStringValue = {},
+    getStringValue = { 'string' },
+    setIntValue = {},
+    getIntValue = { 'integer' },
+    setFloatValue = {},
+    getFloatValue = { 'number' },
+  },
+  events = {},
+})
+
+Mock.define('DetectionZone', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getRadius = { 'number' },
+    getPlayers = { 'table' },
+  },
+  events = { 'onEnter', 'enter', 'onLeave', 'leave' },
+})
+
+Mock.define('Door', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    open = {},
+    activate = {},
+    close = {},
+    deactivate = {},
+    isOpen = { 'boolean' },
+    getState = {},
+    toggle = {},
+  },
+  events = {},
+})
+
+Mock.define('Element', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+  },
+  events = {},
+})
+
+Mock.define('Emitter', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    send = {},
+    getRange = { 'number' },
+  },
+  events = { 'onSent' },
+})
+
+Mock.define('Engine', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getObstructionFactor = { 'number' },
+    getTags = { 'string' },
+    setTags = { 'boolean' },
+    isIgnoringTags = { 'boolean' },
+  },
+  events = {},
+})
+
+Mock.define('Firework', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    fire = {},
+    activate = {},
+    setExplosionDelay = {},
+    getExplosionDelay = { 'number' },
+    setLaunchSpeed = {},
+    getLaunchSpeed = { 'number' },
+    setType = {},
+    getType = { 'integer' },
+    setColor = {},
+    getColor = { 'integer' },
+  },
+  events = { 'onFired' },
+})
+
+Mock.define('ForceField', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    deploy = {},
+    activate = {},
+    retract = {},
+    deactivate = {},
+    isDeployed = { 'boolean' },
+    getState = {},
+    toggle = {},
+    getCurrentLength = { 'number' },
+    getMaxLength = { 'number' },
+    setMaxLength = { 'boolean' },
+    getLengthLimit = { 'number' },
+  },
+  events = {},
+})
+
+Mock.define('FueledEngine', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getObstructionFactor = { 'number' },
+    getTags = { 'string' },
+    setTags = { 'boolean' },
+    isIgnoringTags = { 'boolean' },
+    activate = {},
+    deactivate = {},
+    isActive = { 'boolean' },
+    getState = {},
+    toggle = {},
+    setThrust = {},
+    getThrust = { 'number' },
+    getMaxThrust = {},
+    getMaxThrustBase = {},
+    getCurrentMinThrust = { 'number' },
+    getMinThrust = {},
+    getCurrentMaxThrust = { 'number' },
+    getMaxThrustEfficiency = { 'number' },
+    isTorqueEnabled = { 'boolean' },
+    enableTorque = {},
+    getThrustAxis = { 'table' },
+    getTorqueAxis = { 'table' },
+    getWorldThrustAxis = { 'table' },
+    thrustAxis = {},
+    getWorldTorqueAxis = { 'table' },
+    torqueAxis = {},
+    isOutOfFuel = { 'boolean' },
+    getFuelId = { 'integer' },
+    getFuelTankId = { 'integer' },
+    hasFunctionalFuelTank = { 'boolean' },
+    hasBrokenFuelTank = {},
+    getCurrentFuelRate = { 'number' },
+    getFuelRateEfficiency = { 'number' },
+    getFuelConsumption = { 'number' },
+    getWarmupTime = { 'number' },
+    getT50 = {},
+  },
+  events = {},
+})
+
+Mock.define('Gyro', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    activate = {},
+    deactivate = {},
+    toggle = {},
+    isActive = { 'boolean' },
+    getState = {},
+    getPitch = { 'number' },
+    getRoll = { 'number' },
+    localUp = {},
+    localForward = {},
+    localRight = {},
+    worldUp = {},
+    worldForward = {},
+    worldRight = {},
+  },
+  events = {},
+})
+
+Mock.define('HoverEngine', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getObstructionFactor = { 'number' },
+    getTags = { 'string' },
+    setTags = { 'boolean' },
+    isIgnoringTags = { 'boolean' },
+    activate = {},
+    deactivate = {},
+    isActive = { 'boolean' },
+    getState = {},
+    toggle = {},
+    setThrust = {},
+    getThrust = { 'number' },
+    getMaxThrust = {},
+    getMaxThrustBase = {},
+    getCurrentMinThrust = { 'number' },
+    getMinThrust = {},
+    getCurrentMaxThrust = { 'number' },
+    getMaxThrustEfficiency = { 'number' },
+    isTorqueEnabled = { 'boolean' },
+    enableTorque = {},
+    getThrustAxis = { 'table' },
+    getTorqueAxis = { 'table' },
+    getWorldThrustAxis = { 'table' },
+    thrustAxis = {},
+    getWorldTorqueAxis = { 'table' },
+    torqueAxis = {},
+    isOutOfFuel = { 'boolean' },
+    getFuelId = { 'integer' },
+    getFuelTankId = { 'integer' },
+    hasFunctionalFuelTank = { 'boolean' },
+    hasBrokenFuelTank = {},
+    getCurrentFuelRate = { 'number' },
+    getFuelRateEfficiency = { 'number' },
+    getFuelConsumption = { 'number' },
+    getWarmupTime = { 'number' },
+    getT50 = {},
+    getDistance = { 'number' },
+    getMaxDistance = { 'number' },
+  },
+  events = {},
+})
+
+Mock.define('Industry', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    startRun = {},
+    start = {},
+    startMaintain = {},
+    startAndMaintain = {},
+    startFor = {},
+    batchStart = {},
+    stop = {},
+    hardStop = {},
+    softStop = {},
+    getState = { 'integer' },
+    getStatus = {},
+    getInfo = { 'integer' },
+    getCyclesCompleted = { 'integer' },
+    getCycleCountSinceStartup = {},
+    getEfficiency = { 'number' },
+    getUptime = { 'number' },
+    getInputs = { 'table' },
+    getRequiredSchematicIds = { 'table' },
+    getOutputs = { 'table' },
+    getCurrentSchematic = {},
+    setOutput = { 'integer' },
+    setCurrentSchematic = {},
+    updateBank = { 'number' },
+    getBank = { 'table' },
+  },
+  events = { 'onStarted', 'onCompleted', 'completed', 'onStatusChanged', 'statusChanged', 'onBankUpdate' },
+})
+
+Mock.define('LandingGear', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    deploy = {},
+    activate = {},
+    retract = {},
+    deactivate = {},
+    isDeployed = { 'boolean' },
+    getState = {},
+    toggle = {},
+  },
+  events = {},
+})
+
+Mock.define('LaserDetector', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    isHit = { 'boolean' },
+    getState = {},
+  },
+  events = { 'onHit', 'laserHit', 'onLoss', 'laserRelease' },
+})
+
+Mock.define('LaserEmitter', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    activate = {},
+    deactivate = {},
+    toggle = {},
+    isActive = { 'boolean' },
+    getState = {},
+  },
+  events = {},
+})
+
+Mock.define('Library', {
+  methods = {
+    systemResolution3 = { 'table' },
+    systemResolution2 = { 'table' },
+    getPointOnScreen = { 'table' },
+  },
+  events = {},
+})
+
+Mock.define('Light', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    activate = {},
+    deactivate = {},
+    isActive = { 'boolean' },
+    getState = {},
+    toggle = {},
+    setColor = {},
+    setRGBColor = {},
+    getColor = { 'table' },
+    getRGBColor = {},
+    setBlinkingState = {},
+    isBlinking = { 'boolean' },
+    getOnBlinkingDuration = { 'number' },
+    setOnBlinkingDuration = {},
+    getOffBlinkingDuration = { 'number' },
+    setOffBlinkingDuration = {},
+    getBlinkingTimeShift = { 'number' },
+    setBlinkingTimeShift = {},
+  },
+  events = {},
+})
+
+Mock.define('ManualButton', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    isDown = { 'boolean' },
+    getState = {},
+  },
+  events = { 'onPressed', 'pressed', 'onReleased', 'released' },
+})
+
+Mock.define('ManualSwitch', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    activate = {},
+    deactivate = {},
+    toggle = {},
+    isActive = { 'boolean' },
+    getState = {},
+  },
+  events = { 'onPressed', 'pressed', 'onReleased', 'released' },
+})
+
+Mock.define('MiningUnit', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getState = { 'integer' },
+    getStatus = {},
+    getRemainingTime = { 'number' },
+    getActiveOre = { 'integer' },
+    getOrePools = { 'table' },
+    getBaseRate = { 'number' },
+    getEfficiency = { 'number' },
+    getCalibrationRate = { 'number' },
+    getOptimalRate = { 'number' },
+    getProductionRate = { 'number' },
+    getAdjacencyBonus = { 'number' },
+    getLastExtractionPosition = { 'table' },
+    getLastExtractingPlayerId = { 'integer' },
+    getLastExtractionTime = { 'number' },
+    getLastExtractedOre = { 'integer' },
+    getLastExtractedVolume = { 'number' },
+  },
+  events = { 'onCalibrated', 'calibrated', 'onStarted', 'onCompleted', 'completed', 'onStatusChanged', 'statusChanged', 'onStopped' },
+})
+
+Mock.define('PlasmaExtractor', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getStatus = { 'integer' },
+    getRemainingTime = { 'number' },
+    getPlasmaPools = { 'table' },
+  },
+  events = { 'onStarted', 'onCompleted', 'onStatusChanged', 'onStopped' },
+})
+
+Mock.define('Player', {
+  methods = {
+    getName = { 'string' },
+    getId = { 'integer' },
+    getMass = { 'number' },
+    getNanopackMass = { 'number' },
+    getNanopackVolume = { 'number' },
+    getNanopackMaxVolume = { 'number' },
+    getOrgIds = { 'table' },
+    getPosition = { 'table' },
+    getWorldPosition = { 'table' },
+    getHeadPosition = { 'table' },
+    getWorldHeadPosition = { 'table' },
+    getVelocity = { 'table' },
+    getWorldVelocity = { 'table' },
+    getAbsoluteVelocity = { 'table' },
+    getForward = { 'table' },
+    getRight = { 'table' },
+    getUp = { 'table' },
+    getWorldForward = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldUp = { 'table' },
+    getPlanet = { 'integer' },
+    getParent = { 'integer' },
+    isSeated = { 'boolean' },
+    getSeatId = { 'integer' },
+    isParentedTo = { 'boolean' },
+    isSprinting = { 'boolean' },
+    isJetpackOn = { 'boolean' },
+    isHeadlightOn = { 'boolean' },
+    setHeadlightOn = {},
+    freeze = {},
+    isFrozen = { 'boolean' },
+    hasDRMAutorization = { 'boolean' },
+  },
+  events = { 'onParentChanged' },
+})
+
+Mock.define('PressureTile', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    isDown = { 'boolean' },
+    getState = {},
+  },
+  events = { 'onPressed', 'pressed', 'onReleased', 'released' },
+})
+
+Mock.define('Radar', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getOperationalState = { 'integer' },
+    isOperational = {},
+    getRange = { 'number' },
+    getIdentifyRanges = { 'table' },
+    getConstructIds = { 'table' },
+    getSortMethod = { 'integer' },
+    setSortMethod = { 'boolean' },
+    getIdentifiedConstructIds = { 'table' },
+    getConstructs = { 'table' },
+    getTargetId = { 'integer' },
+    getConstructDistance = { 'number' },
+    isConstructIdentified = { 'boolean' },
+    isConstructAbandoned = { 'boolean' },
+    getConstructCoreSize = { 'string' },
+    getThreatRateTo = { 'integer' },
+    getThreatTo = {},
+    getThreatRateFrom = { 'string' },
+    getThreatFrom = {},
+    hasMatchingTransponder = { 'boolean' },
+    getConstructOwnerEntity = { 'table' },
+    getConstructOwner = {},
+    getConstructSize = { 'table' },
+    getConstructKind = { 'integer' },
+    getConstructType = {},
+    getConstructPos = { 'table' },
+    getConstructWorldPos = { 'table' },
+    getConstructVelocity = { 'table' },
+    getConstructWorldVelocity = { 'table' },
+    getConstructMass = { 'number' },
+    getConstructName = { 'string' },
+    getConstructInfos = { 'table' },
+    getConstructSpeed = { 'number' },
+    getConstructAngularSpeed = { 'number' },
+    getConstructRadialSpeed = { 'number' },
+  },
+  events = { 'onEnter', 'enter', 'onLeave', 'leave', 'onIdentified' },
+})
+
+Mock.define('Receiver', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getRange = { 'number' },
+    hasChannel = { 'boolean' },
+    setChannelList = { 'boolean' },
+    setChannels = {},
+    getChannelList = { 'table' },
+    getChannels = {},
+  },
+  events = { 'onReceived', 'receive' },
+})
+
+Mock.define('RenderScript', {
+  methods = {
+    addBezier = {},
+    addBox = {},
+    addBoxRounded = {},
+    addCircle = {},
+    addImage = {},
+    addImageSub = {},
+    addLine = {},
+    addQuad = {},
+    addText = {},
+    addTriangle = {},
+    createLayer = { 'integer' },
+    getAvailableFontCount = { 'integer' },
+    getAvailableFontName = { 'string' },
+    getCursor = { 'number' },
+    getCursorDown = { 'boolean' },
+    getCursorPressed = { 'boolean' },
+    getCursorReleased = { 'boolean' },
+    getDeltaTime = { 'number' },
+    getFontMetrics = { 'number' },
+    getFontSize = { 'number' },
+    getImageSize = { 'number' },
+    getInput = { 'string' },
+    getLocale = { 'string' },
+    getRenderCost = { 'number' },
+    getRenderCostMax = { 'number' },
+    getResolution = { 'integer' },
+    getTextBounds = { 'number' },
+    getTime = { 'number' },
+    isImageLoaded = { 'boolean' },
+    loadImage = { 'integer' },
+    loadFont = { 'integer' },
+    logMessage = {},
+    requestAnimationFrame = {},
+    setBackgroundColor = {},
+    setDefaultFillColor = {},
+    setDefaultRotation = {},
+    setDefaultShadow = {},
+    setDefaultStrokeColor = {},
+    setDefaultStrokeWidth = {},
+    setDefaultTextAlign = {},
+    setFontSize = {},
+    setLayerClipRect = {},
+    setLayerOrigin = {},
+    setLayerRotation = {},
+    setLayerScale = {},
+    setLayerTranslation = {},
+    setNextFillColor = {},
+    setNextRotation = {},
+    setNextRotationDegrees = {},
+    setNextShadow = {},
+    setNextStrokeColor = {},
+    setNextStrokeWidth = {},
+    setNextTextAlign = {},
+    setOutput = {},
+  },
+  events = {},
+})
+
+Mock.define('RocketEngine', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getObstructionFactor = { 'number' },
+    getTags = { 'string' },
+    setTags = { 'boolean' },
+    isIgnoringTags = { 'boolean' },
+    activate = {},
+    deactivate = {},
+    isActive = { 'boolean' },
+    getState = {},
+    toggle = {},
+    setThrust = {},
+    getThrust = { 'number' },
+    getMaxThrust = {},
+    getMaxThrustBase = {},
+    getCurrentMinThrust = { 'number' },
+    getMinThrust = {},
+    getCurrentMaxThrust = { 'number' },
+    getMaxThrustEfficiency = { 'number' },
+    isTorqueEnabled = { 'boolean' },
+    enableTorque = {},
+    getThrustAxis = { 'table' },
+    getTorqueAxis = { 'table' },
+    getWorldThrustAxis = { 'table' },
+    thrustAxis = {},
+    getWorldTorqueAxis = { 'table' },
+    torqueAxis = {},
+    isOutOfFuel = { 'boolean' },
+    getFuelId = { 'integer' },
+    getFuelTankId = { 'integer' },
+    hasFunctionalFuelTank = { 'boolean' },
+    hasBrokenFuelTank = {},
+    getCurrentFuelRate = { 'number' },
+    getFuelRateEfficiency = { 'number' },
+    getFuelConsumption = { 'number' },
+    getWarmupTime = { 'number' },
+    getT50 = {},
+    getDistance = {},
+  },
+  events = {},
+})
+
+Mock.define('Screen', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    activate = {},
+    deactivate = {},
+    isActive = { 'boolean' },
+    getState = {},
+    toggle = {},
+    addText = { 'integer' },
+    setCenteredText = {},
+    setHTML = {},
+    setRenderScript = {},
+    setScriptInput = {},
+    clearScriptOutput = {},
+    getScriptOutput = { 'string' },
+    addContent = { 'integer' },
+    setSVG = {},
+    resetContent = {},
+    deleteContent = {},
+    showContent = {},
+    moveContent = {},
+    getMouseX = { 'number' },
+    getMouseY = { 'number' },
+    getMouseState = { 'boolean' },
+    clear = {},
+  },
+  events = { 'onMouseDown', 'mouseDown', 'onMouseUp', 'mouseUp', 'onOutputChanged' },
+})
+
+Mock.define('ShieldGenerator', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    activate = {},
+    deactivate = {},
+    toggle = {},
+    isActive = { 'boolean' },
+    getState = {},
+    getShieldHitpoints = { 'number' },
+    getMaxShieldHitpoints = { 'number' },
+    startVenting = { 'boolean' },
+    stopVenting = { 'boolean' },
+    isVenting = { 'boolean' },
+    getVentingCooldown = { 'number' },
+    getVentingMaxCooldown = { 'number' },
+    getResistances = { 'table' },
+    setResistances = { 'boolean' },
+    getResistancesCooldown = { 'number' },
+    getResistancesMaxCooldown = { 'number' },
+    getResistancesPool = { 'number' },
+    getResistancesRemaining = { 'number' },
+    getStressRatio = { 'table' },
+    getStressRatioRaw = { 'table' },
+    getStressHitpoints = { 'number' },
+    getStressHitpointsRaw = { 'number' },
+  },
+  events = { 'onToggled', 'toggled', 'onAbsorbed', 'absorbed', 'onVenting', 'venting', 'onDown', 'down', 'onRestored', 'restored' },
+})
+
+Mock.define('SpaceBrake', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getObstructionFactor = { 'number' },
+    getTags = { 'string' },
+    setTags = { 'boolean' },
+    isIgnoringTags = { 'boolean' },
+    activate = {},
+    deactivate = {},
+    isActive = { 'boolean' },
+    getState = {},
+    toggle = {},
+    setThrust = {},
+    getThrust = { 'number' },
+    getMaxThrust = {},
+    getMaxThrustBase = {},
+    getCurrentMinThrust = { 'number' },
+    getMinThrust = {},
+    getCurrentMaxThrust = { 'number' },
+    getMaxThrustEfficiency = { 'number' },
+    getThrustAxis = { 'table' },
+    getWorldThrustAxis = { 'table' },
+    thrustAxis = {},
+    isOutOfFuel = {},
+    hasFunctionalFuelTank = {},
+    getCurrentFuelRate = {},
+    getFuelRateEfficiency = {},
+    getFuelConsumption = {},
+    getDistance = {},
+    getT50 = {},
+    torqueAxis = {},
+  },
+  events = {},
+})
+
+Mock.define('SpaceEngine', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getObstructionFactor = { 'number' },
+    getTags = { 'string' },
+    setTags = { 'boolean' },
+    isIgnoringTags = { 'boolean' },
+    activate = {},
+    deactivate = {},
+    isActive = { 'boolean' },
+    getState = {},
+    toggle = {},
+    setThrust = {},
+    getThrust = { 'number' },
+    getMaxThrust = {},
+    getMaxThrustBase = {},
+    getCurrentMinThrust = { 'number' },
+    getMinThrust = {},
+    getCurrentMaxThrust = { 'number' },
+    getMaxThrustEfficiency = { 'number' },
+    isTorqueEnabled = { 'boolean' },
+    enableTorque = {},
+    getThrustAxis = { 'table' },
+    getTorqueAxis = { 'table' },
+    getWorldThrustAxis = { 'table' },
+    thrustAxis = {},
+    getWorldTorqueAxis = { 'table' },
+    torqueAxis = {},
+    isOutOfFuel = { 'boolean' },
+    getFuelId = { 'integer' },
+    getFuelTankId = { 'integer' },
+    hasFunctionalFuelTank = { 'boolean' },
+    hasBrokenFuelTank = {},
+    getCurrentFuelRate = { 'number' },
+    getFuelRateEfficiency = { 'number' },
+    getFuelConsumption = { 'number' },
+    getWarmupTime = { 'number' },
+    getT50 = {},
+    getDistance = {},
+  },
+  events = {},
+})
+
+Mock.define('SpaceMiningUnit', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getState = { 'integer' },
+    getStatus = {},
+    getRemainingTime = { 'number' },
+    getActiveOre = { 'integer' },
+    getOrePools = { 'table' },
+    getBaseRate = { 'number' },
+    getEfficiency = { 'number' },
+    getCalibrationRate = { 'number' },
+    getOptimalRate = { 'number' },
+    getProductionRate = { 'number' },
+  },
+  events = { 'onStarted', 'onCompleted', 'completed', 'onStatusChanged', 'statusChanged', 'onStopped' },
+})
+
+Mock.define('SurfaceEngine', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getObstructionFactor = { 'number' },
+    getTags = { 'string' },
+    setTags = { 'boolean' },
+    isIgnoringTags = { 'boolean' },
+    activate = {},
+    deactivate = {},
+    isActive = { 'boolean' },
+    getState = {},
+    toggle = {},
+    setThrust = {},
+    getThrust = { 'number' },
+    getMaxThrust = {},
+    getMaxThrustBase = {},
+    getCurrentMinThrust = { 'number' },
+    getMinThrust = {},
+    getCurrentMaxThrust = { 'number' },
+    getMaxThrustEfficiency = { 'number' },
+    isTorqueEnabled = { 'boolean' },
+    enableTorque = {},
+    getThrustAxis = { 'table' },
+    getTorqueAxis = { 'table' },
+    getWorldThrustAxis = { 'table' },
+    thrustAxis = {},
+    getWorldTorqueAxis = { 'table' },
+    torqueAxis = {},
+    isOutOfFuel = { 'boolean' },
+    getFuelId = { 'integer' },
+    getFuelTankId = { 'integer' },
+    hasFunctionalFuelTank = { 'boolean' },
+    hasBrokenFuelTank = {},
+    getCurrentFuelRate = { 'number' },
+    getFuelRateEfficiency = { 'number' },
+    getFuelConsumption = { 'number' },
+    getWarmupTime = { 'number' },
+    getT50 = {},
+    getDistance = { 'number' },
+    getMaxDistance = { 'number' },
+  },
+  events = {},
+})
+
+Mock.define('System', {
+  methods = {
+    getActionKeyName = { 'string' },
+    showScreen = {},
+    setScreen = {},
+    createWidgetPanel = { 'string' },
+    destroyWidgetPanel = { 'boolean' },
+    createWidget = { 'string' },
+    destroyWidget = { 'boolean' },
+    createData = { 'string' },
+    destroyData = { 'boolean' },
+    updateData = { 'boolean' },
+    addDataToWidget = { 'boolean' },
+    removeDataFromWidget = { 'boolean' },
+    getMouseWheel = { 'number' },
+    getMouseDeltaX = { 'number' },
+    getMouseDeltaY = { 'number' },
+    getMousePosX = { 'number' },
+    getMousePosY = { 'number' },
+    getMouseSensitivity = { 'number' },
+    getScreenHeight = { 'integer' },
+    getScreenWidth = { 'integer' },
+    getCameraHorizontalFov = { 'number' },
+    getFov = {},
+    getCameraVerticalFov = { 'number' },
+    getCameraMode = { 'integer' },
+    isFirstPerson = { 'boolean' },
+    getCameraPos = { 'table' },
+    getCameraWorldPos = { 'table' },
+    getCameraWorldForward = { 'table' },
+    getCameraWorldRight = { 'table' },
+    getCameraWorldUp = { 'table' },
+    getCameraForward = { 'table' },
+    getCameraRight = { 'table' },
+    getCameraUp = { 'table' },
+    getThrottleInputFromMouseWheel = { 'number' },
+    getControlDeviceForwardInput = { 'number' },
+    getControlDeviceYawInput = { 'number' },
+    getControlDeviceLeftRightInput = { 'number' },
+    lockView = {},
+    isViewLocked = { 'boolean' },
+    freeze = {},
+    isFrozen = {},
+    getArkTime = { 'number' },
+    getTime = {},
+    getUtcTime = { 'number' },
+    getUtcOffset = { 'number' },
+    getLocale = { 'string' },
+    getActionUpdateDeltaTime = { 'number' },
+    getPlayerName = { 'string' },
+    getPlayerWorldPos = { 'table' },
+    getItem = { 'table' },
+    isItemInClassId = { 'boolean' },
+    isItemInClass = { 'boolean' },
+    isClassItem = { 'boolean' },
+    isElementItem = { 'boolean' },
+    isMaterialItem = { 'boolean' },
+    isRawMaterialItem = { 'boolean' },
+    isBlueprintItem = { 'boolean' },
+    isScrapItem = { 'boolean' },
+    isPartItem = { 'boolean' },
+    isAmmoItem = { 'boolean' },
+    isPackageItem = { 'boolean' },
+    isSchematicItem = { 'boolean' },
+    getRecipes = { 'table' },
+    getSchematic = {},
+    getOrganization = { 'table' },
+    getOrganizationName = {},
+    getOrganizationTag = {},
+    getWaypointFromPlayerPos = { 'string' },
+    setWaypoint = {},
+    clearWaypoint = {},
+    getInstructionCount = { 'integer' },
+    getInstructionLimit = { 'integer' },
+    showHelper = {},
+    playSound = {},
+    isPlayingSound = { 'boolean' },
+    stopSound = {},
+    print = {},
+  },
+  events = { 'onActionStart', 'actionStart', 'onActionStop', 'actionStop', 'onActionLoop', 'actionLoop', 'onUpdate', 'update', 'onFlush', 'flush', 'onInputText', 'inputText', 'onCameraChanged', 'cameraChanged' },
+})
+
+Mock.define('Telemeter', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getDistance = {},
+    raycast = { 'table' },
+    getRayOrigin = { 'table' },
+    getRayWorldOrigin = { 'table' },
+    getRayAxis = { 'table' },
+    getRayWorldAxis = { 'table' },
+    getMaxDistance = { 'number' },
+  },
+  events = {},
+})
+
+Mock.define('Transponder', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    activate = {},
+    deactivate = {},
+    toggle = {},
+    isActive = { 'boolean' },
+    getState = {},
+    setTags = { 'boolean' },
+    getTags = { 'table' },
+  },
+  events = { 'onToggled', 'toggled' },
+})
+
+Mock.define('VerticalBooster', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getObstructionFactor = { 'number' },
+    getTags = { 'string' },
+    setTags = { 'boolean' },
+    isIgnoringTags = { 'boolean' },
+    activate = {},
+    deactivate = {},
+    isActive = { 'boolean' },
+    getState = {},
+    toggle = {},
+    setThrust = {},
+    getThrust = { 'number' },
+    getMaxThrust = {},
+    getMaxThrustBase = {},
+    getCurrentMinThrust = { 'number' },
+    getMinThrust = {},
+    getCurrentMaxThrust = { 'number' },
+    getMaxThrustEfficiency = { 'number' },
+    isTorqueEnabled = { 'boolean' },
+    enableTorque = {},
+    getThrustAxis = { 'table' },
+    getTorqueAxis = { 'table' },
+    getWorldThrustAxis = { 'table' },
+    thrustAxis = {},
+    getWorldTorqueAxis = { 'table' },
+    torqueAxis = {},
+    isOutOfFuel = { 'boolean' },
+    getFuelId = { 'integer' },
+    getFuelTankId = { 'integer' },
+    hasFunctionalFuelTank = { 'boolean' },
+    hasBrokenFuelTank = {},
+    getCurrentFuelRate = { 'number' },
+    getFuelRateEfficiency = { 'number' },
+    getFuelConsumption = { 'number' },
+    getWarmupTime = { 'number' },
+    getT50 = {},
+    getDistance = { 'number' },
+    getMaxDistance = { 'number' },
+  },
+  events = {},
+})
+
+Mock.define('WarpDrive', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    initiate = {},
+    getStatus = { 'integer' },
+    getDistance = { 'number' },
+    getDestination = { 'integer' },
+    getDestinationName = { 'string' },
+    getContainerId = { 'integer' },
+    getAvailableWarpCells = { 'integer' },
+    getRequiredWarpCells = { 'integer' },
+  },
+  events = {},
+})
+
+Mock.define('Weapon', {
+  methods = {
+    showWidget = {},
+    show = {},
+    hideWidget = {},
+    hide = {},
+    getWidgetType = { 'string' },
+    getWidgetData = { 'string' },
+    getData = {},
+    getWidgetDataId = { 'string' },
+    getDataId = {},
+    getName = { 'string' },
+    getClass = { 'string' },
+    getElementClass = {},
+    getClassId = {},
+    getMass = { 'number' },
+    getItemId = { 'integer' },
+    isInClassId = { 'boolean' },
+    isInClass = { 'boolean' },
+    getLocalId = { 'integer' },
+    getId = {},
+    getIntegrity = { 'number' },
+    getHitPoints = { 'number' },
+    getMaxHitPoints = { 'number' },
+    getRemainingRestorations = { 'integer' },
+    getMaxRestorations = { 'integer' },
+    getPosition = { 'table' },
+    getBoundingBoxSize = { 'table' },
+    getBoundingBoxCenter = { 'table' },
+    getUp = { 'table' },
+    getRight = { 'table' },
+    getForward = { 'table' },
+    getWorldUp = { 'table' },
+    getWorldRight = { 'table' },
+    getWorldForward = { 'table' },
+    getInPlugs = { 'table' },
+    getOutPlugs = { 'table' },
+    setSignalIn = {},
+    getSignalIn = { 'integer' },
+    getSignalOut = { 'integer' },
+    getAmmo = { 'integer' },
+    getAmmoCount = { 'integer' },
+    getMaxAmmo = { 'integer' },
+    isOutOfAmmo = { 'boolean' },
+    getOperationalState = { 'integer' },
+    isOperational = {},
+    getStatus = { 'integer' },
+    getContainerId = { 'integer' },
+    getHitProbability = { 'number' },
+    getBaseDamage = { 'number' },
+    getOptimalAimingCone = { 'number' },
+    getOptimalDistance = { 'number' },
+    getMaxDistance = { 'number' },
+    getOptimalTracking = { 'number' },
+    getMagazineVolume = { 'number' },
+    getCycleTime = { 'number' },
+    getReloadTime = { 'number' },
+    getUnloadTime = { 'number' },
+    getTargetId = { 'integer' },
+  },
+  events = { 'onReload', 'onReloaded', 'onMissed', 'onDestroyed', 'onElementDestroyed', 'onHit' },
+})
+
+Mock.global('library', 'Library')
+
+Mock.global('system', 'System')
+
+Mock.global('unit', 'ControlUnit')
+
+Mock.global('player', 'Player')
+
+Mock.global('construct', 'Construct')
+
+Mock.global('DULibrary', 'Library')
+
+Mock.global('DUSystem', 'System')
+
+Mock.global('DUPlayer', 'Player')
+
+Mock.global('DUConstruct', 'Construct')
\ No newline at end of file
@@ -1,5 +1,5 @@
 -- Exported variables
 __PARAMS__()
 
--- Those values will be filled by the compiler
-__EXPAND([[__SOURCE__]], {__SYMBOLS__})
\ No newline at end of file
+-- The compressed code will be filled by the compiler
+__EXPAND(__DATA__)
\ No newline at end of file
@@ -1,10 +1,10 @@
-function __EXPAND (source, symbols)
+function __EXPAND (source)
   -- Error handler
   local function handleError (err)
     local iLine, iMsg = err:find('%d+:%s')
     if iLine then
       local line, msg, lineNumber = tonumber(err:sub(iLine, iMsg - 2)), err:sub(iMsg), 0
-      for lineSource in source:gmatch('[^\r\n]+') do
+      for lineSource in (source .. '\n'):gmatch('(.-)\n') do
         lineNumber = lineNumber + 1
         if lineNumber == line then
           system.print(string.format('[ERROR] %s near `%s` at line %d', msg, lineSource, lineNumber))
@@ -16,18 +16,56 @@ function __EXPAND (source, symbols)
     end
   end
 
-  -- Processes symbol table (main expand happens here)
-  for ref, value in pairs(symbols) do
-    source = source:gsub('@' .. ref:sub(2), value)
+  -- Digits used on back-references, all printable characters from "#" to "~" except "@"
+  local digits, base = {}, 0
+  for byte = 35, 126 do
+    if byte ~= 64 then
+      digits[byte] = base
+      base = base + 1
+    end
   end
 
-  -- De-escapes values from compiler, removes comments too
-  source = source:gsub('%[@%[', '[[')
-  source = source:gsub('%]@%]', ']]')
-  source = source:gsub('@@', '@')
-  source = source:gsub('%%%%', '%%')
-  source = source:gsub('%-%-.-\n', '')
-  source = source:gsub('%)', ')\n')
+  -- Decodes our LZ77 data (main expand happens here), literals and back-references are kept as bytes
+  local data, output, size, position = source, {}, 0, 1
+  while position <= #data do
+    local marker = data:find('@', position, true) or (#data + 1)
+
+    -- Copies literal bytes until the next marker
+    if marker > position then
+      local bytes = { data:byte(position, marker - 1) }
+      for idx = 1, #bytes do
+        output[size + idx] = bytes[idx]
+      end
+      size = size + #bytes
+    end
+    if marker > #data then break end
+
+    -- Handles escapes and back-references
+    local next = data:byte(marker + 1)
+    if next == 64 then
+      size = size + 1
+      output[size] = 64
+      position = marker + 2
+    elseif next == 33 then
+      size = size + 1
+      output[size] = 13
+      position = marker + 2
+    else
+      local distance = digits[next] * base + digits[data:byte(marker + 2)] + 1
+      for _ = 1, digits[data:byte(marker + 3)] + 5 do
+        size = size + 1
+        output[size] = output[size - distance]
+      end
+      position = marker + 4
+    end
+  end
+
+  -- Converts our bytes back into a string, in chunks so we don't go over any stack limits
+  local chunks = {}
+  for idx = 1, size, 4096 do
+    chunks[#chunks + 1] = string.char(table.unpack(output, idx, math.min(idx + 4095, size)))
+  end
+  source = table.concat(chunks)
 
   -- Passes down env and links
   local env = { system = system, library = library, unit = unit }
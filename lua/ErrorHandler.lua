@@ -0,0 +1,6 @@
+local ok, err = pcall(function (...)
+__SOURCE__()
+end, ...)
+if not ok then
+  system.print('[ERROR] ' .. '__HANDLER__' .. ': ' .. tostring(err))
+end
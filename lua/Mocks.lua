@@ -0,0 +1,178 @@
+-- Mock objects for the Dual Universe API, used when running Lua locally
+-- The classes themselves are generated from the Codex into Codex/Mocks.lua
+Mock = {
+  -- The class definitions, by class name
+  classes = {},
+
+  -- Every call made to any mock, in order
+  log = {},
+
+  -- Called with (mock name, method, args) on every call, useful for printing calls as they happen
+  onCall = nil,
+}
+
+-- The internal state of each mock, kept outside of the objects so they can be freely changed by event helpers
+local states = setmetatable({}, { __mode = 'k' })
+
+-- Default values for each of the Codex types
+local defaultValues = {
+  boolean = function () return false end,
+  number = function () return 0 end,
+  integer = function () return 0 end,
+  interger = function () return 0 end,
+  string = function () return '' end,
+  table = function () return {} end,
+}
+
+-- Methods that do more than returning values by default
+local defaultImplementations = {
+  ['System.print'] = function (msg)
+    print(msg)
+  end,
+}
+
+-- Gets the state of a mock, raising an error when it isn't one
+local function getState(obj)
+  local state = states[obj]
+  if not state then
+    error('Value is not a mock object!', 3)
+  end
+  return state
+end
+
+-- Registers a class, used by the generated mocks
+function Mock.define(className, definition)
+  Mock.classes[className] = definition
+end
+
+-- Creates a new mock object of a certain class, name is used on the call log
+function Mock.new(className, name)
+  local class = Mock.classes[className]
+  if not class then
+    error('Unknown class: ' .. tostring(className), 2)
+  end
+
+  local obj = {}
+  local state = {
+    class = className,
+    name = name or className,
+    calls = {},
+    events = {},
+    implementations = {},
+  }
+  states[obj] = state
+
+  for method, returns in pairs(class.methods) do
+    obj[method] = function (...)
+      -- Methods can be called both with "." and ":"
+      local args = table.pack(...)
+      if args.n > 0 and args[1] == obj then
+        args = table.pack(select(2, ...))
+      end
+
+      -- Records the call
+      local call = { object = state.name, method = method, args = args }
+      state.calls[method] = state.calls[method] or {}
+      table.insert(state.calls[method], args)
+      table.insert(Mock.log, call)
+      if Mock.onCall then
+        Mock.onCall(state.name, method, args)
+      end
+
+      -- Uses the configured implementation, or returns default values for each of the return types
+      local implementation = state.implementations[method] or defaultImplementations[className .. '.' .. method]
+      if implementation then
+        return implementation(table.unpack(args, 1, args.n))
+      end
+
+      local values = {}
+      for idx, returnType in ipairs(returns) do
+        values[idx] = (defaultValues[returnType] or function () return nil end)()
+      end
+      return table.unpack(values, 1, #returns)
+    end
+  end
+
+  return obj
+end
+
+-- Makes a method return fixed values
+function Mock.returns(obj, method, ...)
+  local values = table.pack(...)
+  Mock.implement(obj, method, function ()
+    return table.unpack(values, 1, values.n)
+  end)
+end
+
+-- Makes a method run a custom function, receiving the same arguments (without self)
+function Mock.implement(obj, method, fn)
+  local state = getState(obj)
+  if not Mock.classes[state.class].methods[method] then
+    error('Class ' .. state.class .. ' has no method ' .. tostring(method), 2)
+  end
+  state.implementations[method] = fn
+end
+
+-- Gets the arguments of each call made to a method
+function Mock.calls(obj, method)
+  return getState(obj).calls[method] or {}
+end
+
+-- Clears all calls and implementations of a mock
+function Mock.reset(obj)
+  local state = getState(obj)
+  state.calls = {}
+  state.events = {}
+  state.implementations = {}
+end
+
+-- Fires an event on a mock, the event is delivered by Mock.dispatch
+function Mock.fire(obj, event, ...)
+  local state = getState(obj)
+  local isValid = false
+  for _, name in ipairs(Mock.classes[state.class].events) do
+    isValid = isValid or (name == event)
+  end
+  if not isValid then
+    error('Class ' .. state.class .. ' has no event ' .. tostring(event), 2)
+  end
+
+  table.insert(state.events, { event = event, args = table.pack(...) })
+  Mock.dispatch(obj, event, ...)
+end
+
+-- Delivers events, by default to the event handlers added by library.addEventHandlers
+function Mock.dispatch(obj, event, ...)
+  if obj.triggerEvent then
+    obj:triggerEvent(event, ...)
+  end
+end
+
+-- Gets the name of a mock
+function Mock.getName(obj)
+  return getState(obj).name
+end
+
+-- Creates a mock for anything not on the Codex (like the game's native libraries), any field is a function which records its calls and returns nothing
+function Mock.any(name)
+  return setmetatable({}, {
+    __index = function (obj, method)
+      local fn = function (...)
+        local args = table.pack(...)
+        table.insert(Mock.log, { object = name, method = method, args = args })
+        if Mock.onCall then
+          Mock.onCall(name, method, args)
+        end
+      end
+      rawset(obj, method, fn)
+      return fn
+    end,
+  })
+end
+
+-- Creates a global mock, globals of the same class share the same object
+local globalsByClass = {}
+function Mock.global(name, className)
+  globalsByClass[className] = globalsByClass[className] or Mock.new(className, name)
+  _G[name] = globalsByClass[className]
+end
\ No newline at end of file
@@ -0,0 +1,128 @@
+-- Lua helpers for running tests on CLI, results are sent back via __TEST_REPORT(name, passed, message)
+-- Each test calls __TEST_START() before running, so it gets the full instruction limit
+local report = __TEST_REPORT
+local start = __TEST_START
+__TEST_REPORT = nil
+__TEST_START = nil
+
+-- The names of the describe blocks we're currently in
+local groups = {}
+
+-- Converts a value into a readable string for assertion messages
+local function inspect(value, depth)
+  depth = depth or 0
+  if 'string' == type(value) then
+    return string.format('%q', value)
+  elseif 'table' == type(value) and depth < 3 then
+    local items = {}
+    for k, v in pairs(value) do
+      table.insert(items, '[' .. inspect(k, depth + 1) .. '] = ' .. inspect(v, depth + 1))
+    end
+    table.sort(items)
+    return '{ ' .. table.concat(items, ', ') .. ' }'
+  end
+  return tostring(value)
+end
+
+-- Checks if two values are the same, tables are compared by their contents
+local function same(a, b)
+  if a == b then return true end
+  if 'table' ~= type(a) or 'table' ~= type(b) then return false end
+  for k, v in pairs(a) do
+    if not same(v, b[k]) then return false end
+  end
+  for k in pairs(b) do
+    if nil == a[k] then return false end
+  end
+  return true
+end
+
+-- Raises an assertion error pointing to the line of the test which called the assertion
+local function fail(message, default)
+  error(message or default, 3)
+end
+
+-- Groups tests under a name
+function describe(name, fn)
+  table.insert(groups, name)
+  local ok, err = pcall(fn)
+  if not ok then
+    report(table.concat(groups, ' '), false, tostring(err))
+  end
+  table.remove(groups)
+end
+
+-- Runs a single test
+function it(name, fn)
+  local fullName = table.concat(groups, ' ')
+  fullName = ('' == fullName) and name or (fullName .. ' ' .. name)
+
+  start()
+  local ok, err = pcall(fn)
+  report(fullName, ok, (not ok) and tostring(err) or nil)
+end
+
+-- The assertions, calling assert directly works just like the standard Lua assert
+local luaAssert = assert
+assert = setmetatable({}, {
+  __call = function (_, ...)
+    return luaAssert(...)
+  end,
+})
+
+function assert.equals(expected, actual, message)
+  if expected ~= actual then
+    fail(message, 'expected ' .. inspect(expected) .. ', got ' .. inspect(actual))
+  end
+end
+
+function assert.not_equals(unexpected, actual, message)
+  if unexpected == actual then
+    fail(message, 'expected anything other than ' .. inspect(unexpected))
+  end
+end
+
+function assert.same(expected, actual, message)
+  if not same(expected, actual) then
+    fail(message, 'expected ' .. inspect(expected) .. ', got ' .. inspect(actual))
+  end
+end
+
+function assert.near(expected, actual, tolerance, message)
+  if 'number' ~= type(actual) or math.abs(expected - actual) > (tolerance or 1e-9) then
+    fail(message, 'expected ' .. inspect(expected) .. ' (+/- ' .. tostring(tolerance or 1e-9) .. '), got ' .. inspect(actual))
+  end
+end
+
+function assert.is_true(value, message)
+  if true ~= value then
+    fail(message, 'expected true, got ' .. inspect(value))
+  end
+end
+
+function assert.is_false(value, message)
+  if false ~= value then
+    fail(message, 'expected false, got ' .. inspect(value))
+  end
+end
+
+function assert.is_nil(value, message)
+  if nil ~= value then
+    fail(message, 'expected nil, got ' .. inspect(value))
+  end
+end
+
+function assert.is_not_nil(value, message)
+  if nil == value then
+    fail(message, 'expected a value, got nil')
+  end
+end
+
+function assert.has_error(fn, expected, message)
+  local ok, err = pcall(fn)
+  if ok then
+    fail(message, 'expected an error, but none was raised')
+  elseif expected and not tostring(err):find(expected, 1, true) then
+    fail(message, 'expected an error containing ' .. inspect(expected) .. ', got ' .. inspect(err))
+  end
+end
\ No newline at end of file
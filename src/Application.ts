@@ -21,4 +21,11 @@ export default class Application {
   static getTempPath(...pieces: string[]): string {
     return this.getPath('temp', ...pieces);
   }
+
+  /**
+   * Returns the current version of the CLI
+   */
+  static getVersion(): string {
+    return require(this.getPath('package.json')).version;
+  }
 }
\ No newline at end of file
@@ -3,13 +3,19 @@ import path from "path";
 import YAML from "yaml";
 import { CLI } from "../lib/CLI";
 import ColorScheme from "../lib/ColorScheme";
-import { DULuaCompiler } from "../lib/DULuaCompiler";
+import { DULuaCompiler, DULuaCompilerResult } from "../lib/DULuaCompiler";
 import { DULuaConfig } from "../lib/DULuaConfig";
-import { BuildType } from "../types/Build";
+import Build, { BuildType } from "../types/Build";
+import BuildTarget from "../types/BuildTarget";
+import SizeBudget, { SizeBudgetOutput, SizeBudgetSeverity } from "../types/SizeBudget";
 import Project from "../types/Project";
 import Command, { CommandData } from "./Command";
-import { CompilerVariableSet } from "../types/CompilerVariable";
 import CommandManager from "../lib/CommandManager";
+import CommandParser from "../lib/CommandParser";
+import { CompilerVariableSet } from "../types/CompilerVariable";
+import { DULuaDiagnostics } from "../lib/DULuaDiagnostics";
+import { DULuaSizeReport } from "../lib/DULuaSizeReport";
+import { DULuaSimulator } from "../lib/DULuaSimulator";
 
 /**
  * A command that builds the project
@@ -28,8 +34,31 @@ export default class BuildProjectCommand implements Command {
       format: `true`,
       description: 'Sets the compiler variable "name" to "true"',
     },
+    'no-cache': {
+      format: `true`,
+      description: 'Processes all files again, ignoring any cached results',
+    },
+    diagnostics: {
+      format: `gcc|json|sarif`,
+      description: 'Also prints all errors and warnings in a machine-readable format at the end of the build, combine with LOG_LEVEL=none to get only that output',
+    },
+    'diagnostics-output': {
+      format: `file`,
+      description: 'Writes the machine-readable errors and warnings from --diagnostics into this file instead of printing them',
+    },
+    report: {
+      format: `true`,
+      description: 'Prints how much each required file, helper, slot handler and the main code take on each build (raw, minified and compressed), also saving it as JSON and HTML next to the build outputs',
+    },
+    smoke: {
+      format: `true`,
+      description: 'Loads every handler of Control Unit builds in an embedded Lua VM with mocked slots and runs their onStart handlers, failing the build on any runtime errors',
+    },
   };
 
+  // How many Lua instructions each handler can run during smoke tests
+  private smokeInstructionLimit = 10000000;
+
   // This is out CLI tag to show when building
   private CLITag = 'BUILDER';
 
@@ -38,6 +67,16 @@ export default class BuildProjectCommand implements Command {
     // Gets current project
     const project = Project.load(process.cwd());
 
+    // Checks the diagnostics format before building anything
+    const diagnosticsFormat: string | null = options.diagnostics || null;
+    if (diagnosticsFormat && !DULuaDiagnostics.formats.includes(diagnosticsFormat)) {
+      CLI.panic(`Invalid diagnostics format ${ColorScheme.highlight(diagnosticsFormat)}, valid formats are: ${DULuaDiagnostics.formats.map((format) => ColorScheme.highlight(format)).join(', ')}`);
+    }
+    const diagnosticsOutput: string | null = options['diagnostics-output'] || null;
+    if (diagnosticsOutput && ('string' != typeof diagnosticsOutput || !diagnosticsFormat)) {
+      CLI.panic(`The ${ColorScheme.highlight('--diagnostics-output')} option requires a file name and a format set via ${ColorScheme.highlight('--diagnostics')}`);
+    }
+
     // Optionally build a single target
     const specificBuildArg = args[0] || null;
     let specificBuildTarget: string | null = null;
@@ -52,27 +91,10 @@ export default class BuildProjectCommand implements Command {
     let hasUsedClipboard = false;
 
     // Gets a list of command-line vars
-    const variablePrefix = 'var:';
-    const variables: CompilerVariableSet = {};
-    for (const option in options) {
-      if (option.startsWith(variablePrefix)) {
-        // Sets variable
-        const variable = option.substring(variablePrefix.length);
-        const valueRaw = options[option];
-
-        // Here we try to convert the value into a JS value
-        let value = valueRaw;
-        try {
-          value = JSON.parse(valueRaw);
-        } catch (ex) {
-          // Nothing necessary
-        }
-        
-        // Assigns and cleans-up
-        variables[variable] = value;
-        delete options[option];
-      }
-    }
+    const variables = CommandParser.extractCompilerVariables(options);
+
+    // Any errors are collected through all builds and reported at the end
+    const diagnostics = new DULuaDiagnostics();
 
     // Fetches list of builds
     const builds = specificBuildName
@@ -88,34 +110,9 @@ export default class BuildProjectCommand implements Command {
 
     // Builds each of the entry-points
     for (const build of builds) {
-      // Those are the formats we're exporting to
-      const exportFormats = {
-        JSON: false,
-        YAML: false,
-        CONF: false,
-        LUA: false,
-      };
-
       // In old projects, build types use "control" as default build type
       if (project.getProjectFormat() < 5) build.type = build.type || BuildType.ControlUnit;
 
-      // Properly assigns the export formats
-      switch (build.type) {
-        case BuildType.ControlUnit:
-          exportFormats.CONF = true;
-          exportFormats.JSON = true;
-          exportFormats.YAML = true;
-          break;
-        case BuildType.RenderScript:
-          exportFormats.LUA = true;
-          break;
-        default:
-          throw new Error([
-            `Invalid build type ${ColorScheme.highlight(build.type)} on build ${ColorScheme.highlight(build.name)}`,
-            `Valid options: ${ColorScheme.highlight('control')}, ${ColorScheme.highlight('screen')}`
-          ].join('\n'));
-      }
-
       // Fetches valid build targets
       const buildTargets = specificBuildTarget
         ? project.getProjectBuildTargets().filter(target => target.name == specificBuildTarget)
@@ -130,58 +127,29 @@ export default class BuildProjectCommand implements Command {
 
       // Loops for every build target
       for (const buildTarget of buildTargets) {
-        // Invokes our compiler step
-        CLI.status(this.CLITag, `Starting build ${ColorScheme.highlight(build.name)} for target ${ColorScheme.highlight(buildTarget.name)}...`);
-        const buildResult = await DULuaCompiler.compile(project, build, buildTarget, variables);
-
-        // Generates the files
-        CLI.status(this.CLITag, `Generating output files for target ${ColorScheme.highlight(buildTarget.name)}...`);
-        const configFile = DULuaConfig.fromCompilerResult(buildResult, buildTarget);
-
-        // Creates output directory
-        const buildTargetPath = path.join(project.getOutputDirectory(), buildTarget.name);
-
-        // The output directory for the file, without extension
-        const buildOutputFile = path.join(buildTargetPath, build.name);
-
-        // Ensures the path exists
-        if (!fs.existsSync(path.dirname(buildOutputFile))) {
-          fs.mkdirSync(path.dirname(buildOutputFile), { recursive: true });
-        }
-
-        // Exports our Lua file (if needed)
-        if (exportFormats.LUA) {
-          // Generates output Lua
-          const output = configFile.getMainCode();
-          fs.writeFileSync(`${buildOutputFile}.lua`, output);
+        // Builds and exports our files, on errors we skip to the next build
+        diagnostics.setCurrentBuild(build.getFullName(buildTarget));
+        let buildResult: DULuaCompilerResult;
+        let configFile: DULuaConfig;
+        try {
+          ({ buildResult, configFile } = await this.compileBuild(project, build, buildTarget, variables, !options['no-cache'], diagnostics));
 
-          // Measures output size when Render Script
-          if (build.type == BuildType.RenderScript) {
-            this.printScriptUsage(this.getStringByteSize(output), 50000, 'Render Script');
+          // Runs the onStart handlers, catching runtime errors before the build reaches the game, so nothing is written when they fail
+          if (options.smoke && build.type == BuildType.ControlUnit && !this.runSmokeTest(build, buildTarget, buildResult, configFile, diagnostics)) {
+            CLI.error(`Build ${ColorScheme.buildFullName(build, buildTarget)} failed`);
+            continue;
           }
-        }
 
-        // Exports our JSON file
-        if (exportFormats.JSON) {
-          fs.writeFileSync(`${buildOutputFile}.json`, JSON.stringify(configFile.toDUUnitConfig()));
-
-          // Measures output size
-          this.printScriptUsage(this.getStringByteSize(JSON.stringify(configFile.toDUUnitConfig(), null, 2)), 200000, 'JSON build');
+          this.writeBuild(project, build, buildTarget, configFile, diagnostics);
+        } catch (err) {
+          diagnostics.addException(err);
+          CLI.error(`Build ${ColorScheme.buildFullName(build, buildTarget)} failed`);
+          continue;
         }
 
-        // Exports our YAML file
-        if (exportFormats.YAML) {
-          fs.writeFileSync(`${buildOutputFile}.yaml`, YAML.stringify(configFile.toDUUnitConfig()));
-        }
-
-        // Exports our CONF file
-        if (exportFormats.CONF) {
-          // Generates output YAML
-          const output = YAML.stringify(configFile.toDUAutoConfig());
-          fs.writeFileSync(`${buildOutputFile}.conf`, output);
-
-          // Measures output size
-          this.printScriptUsage(this.getStringByteSize(output), 180000, 'CONF build');
+        // Prints and saves the size breakdown of our build
+        if (options.report) {
+          this.writeSizeReport(project, build, buildTarget, buildResult, configFile);
         }
 
         // Copies our build to the clipboard
@@ -196,21 +164,8 @@ export default class BuildProjectCommand implements Command {
             // Marks clipboard as used
             hasUsedClipboard = true;
 
-            // Loads clipboardy
-            const clipboard = (await import("clipboardy")).default;
-
-            // Copies to clipboard
-            switch (build.type) {
-              case BuildType.ControlUnit:
-                clipboard.writeSync(JSON.stringify(configFile.toDUUnitConfig()));
-                break;
-              case BuildType.RenderScript:
-                clipboard.writeSync(configFile.getMainCode());
-                break;
-            }
-
-            // Notifies user
-            CLI.success(`Build ${ColorScheme.highlight(build.getFullName(buildTarget))} successfully copied to clipboard!`);
+            // Does the actual copy
+            await this.copyToClipboard(build, buildTarget, configFile);
           }
         }
       }
@@ -219,6 +174,23 @@ export default class BuildProjectCommand implements Command {
       CLI.skip();
     }
 
+    // Outputs all diagnostics in a machine-readable format, either into a file or straight to stdout so it's not affected by LOG_LEVEL
+    if (diagnosticsFormat) {
+      const output = diagnostics.toFormat(project, diagnosticsFormat);
+      if (diagnosticsOutput) {
+        fs.writeFileSync(diagnosticsOutput, output ? `${output}\n` : '');
+        CLI.status(this.CLITag, `Diagnostics saved to ${ColorScheme.highlight(diagnosticsOutput)}`);
+      } else if (output) {
+        process.stdout.write(`${output}\n`);
+      }
+    }
+
+    // Reports all errors at once
+    if (diagnostics.getErrorCount() > 0) {
+      diagnostics.print(project);
+      process.exit(1);
+    }
+
     // Silently rebuild local Codex for autocomplete
     await CommandManager.execute('add-code-completion', '--quiet');
 
@@ -226,6 +198,227 @@ export default class BuildProjectCommand implements Command {
     CLI.success('Build completed successfully!');
   }
 
+  /**
+   * Compiles a single build for a single build target and writes its output files
+   * @param project The project being built
+   * @param build The build being compiled
+   * @param buildTarget The build target being used
+   * @param variables Any extra compiler variables
+   * @param useCache Whether processed files should be cached
+   * @param diagnostics Where any errors found are reported
+   */
+  async runBuild(project: Project, build: Build, buildTarget: BuildTarget, variables: CompilerVariableSet = {}, useCache: boolean = true, diagnostics?: DULuaDiagnostics): Promise<{ buildResult: DULuaCompilerResult, configFile: DULuaConfig }> {
+    const { buildResult, configFile } = await this.compileBuild(project, build, buildTarget, variables, useCache, diagnostics);
+    this.writeBuild(project, build, buildTarget, configFile, diagnostics);
+    return { buildResult, configFile };
+  }
+
+  /**
+   * Compiles a single build for a single build target, without writing any files
+   * @param project The project being built
+   * @param build The build being compiled
+   * @param buildTarget The build target being used
+   * @param variables Any extra compiler variables
+   * @param useCache Whether processed files should be cached
+   * @param diagnostics Where any errors found are reported
+   */
+  async compileBuild(project: Project, build: Build, buildTarget: BuildTarget, variables: CompilerVariableSet = {}, useCache: boolean = true, diagnostics?: DULuaDiagnostics): Promise<{ buildResult: DULuaCompilerResult, configFile: DULuaConfig }> {
+    // Makes sure we know how to export this build before compiling it
+    this.getExportFormats(build);
+
+    // Invokes our compiler step
+    CLI.status(this.CLITag, `Starting build ${ColorScheme.highlight(build.name)} for target ${ColorScheme.highlight(buildTarget.name)}...`);
+    const buildResult = await DULuaCompiler.compile(project, build, buildTarget, variables, useCache, diagnostics);
+
+    // Generates the files
+    CLI.status(this.CLITag, `Generating output files for target ${ColorScheme.highlight(buildTarget.name)}...`);
+    const configFile = DULuaConfig.fromCompilerResult(buildResult, buildTarget, diagnostics);
+
+    return { buildResult, configFile };
+  }
+
+  /**
+   * Gets which formats a build is exported to
+   * @param build The build being exported
+   */
+  private getExportFormats(build: Build) {
+    // Those are the formats we're exporting to
+    const exportFormats = {
+      JSON: false,
+      YAML: false,
+      CONF: false,
+      LUA: false,
+    };
+
+    // Properly assigns the export formats
+    switch (build.type) {
+      case BuildType.ControlUnit:
+        exportFormats.CONF = true;
+        exportFormats.JSON = true;
+        exportFormats.YAML = true;
+        break;
+      case BuildType.RenderScript:
+        exportFormats.LUA = true;
+        break;
+      default:
+        throw new Error([
+          `Invalid build type ${ColorScheme.highlight(build.type)} on build ${ColorScheme.highlight(build.name)}`,
+          `Valid options: ${ColorScheme.highlight('control')}, ${ColorScheme.highlight('screen')}`
+        ].join('\n'));
+    }
+
+    return exportFormats;
+  }
+
+  /**
+   * Writes the output files of a compiled build, measuring their sizes
+   * @param project The project being built
+   * @param build The build being written
+   * @param buildTarget The build target used
+   * @param configFile The build output
+   * @param diagnostics Where any size warnings and errors are reported
+   */
+  writeBuild(project: Project, build: Build, buildTarget: BuildTarget, configFile: DULuaConfig, diagnostics?: DULuaDiagnostics) {
+    const exportFormats = this.getExportFormats(build);
+
+    // Creates output directory
+    const buildTargetPath = path.join(project.getOutputDirectory(), buildTarget.name);
+
+    // The output directory for the file, without extension
+    const buildOutputFile = path.join(buildTargetPath, build.name);
+
+    // Ensures the path exists
+    if (!fs.existsSync(path.dirname(buildOutputFile))) {
+      fs.mkdirSync(path.dirname(buildOutputFile), { recursive: true });
+    }
+
+    // Gets the size budget of each of the outputs, the build's settings override the target's
+    const getSizeBudget = (output: SizeBudgetOutput) => new SizeBudget(output, buildTarget.budgets[output], build.budgets[output]);
+
+    // Exports our Lua file (if needed)
+    if (exportFormats.LUA) {
+      // Generates output Lua
+      const output = configFile.getMainCode();
+      fs.writeFileSync(`${buildOutputFile}.lua`, output);
+
+      // Measures output size when Render Script
+      if (build.type == BuildType.RenderScript) {
+        this.printScriptUsage(this.getStringByteSize(output), getSizeBudget(SizeBudgetOutput.Lua), 'Render Script', diagnostics);
+      }
+    }
+
+    // Exports our JSON file
+    if (exportFormats.JSON) {
+      fs.writeFileSync(`${buildOutputFile}.json`, JSON.stringify(configFile.toDUUnitConfig()));
+
+      // Measures output size
+      this.printScriptUsage(this.getStringByteSize(JSON.stringify(configFile.toDUUnitConfig(), null, 2)), getSizeBudget(SizeBudgetOutput.JSON), 'JSON build', diagnostics);
+    }
+
+    // Exports our YAML file
+    if (exportFormats.YAML) {
+      fs.writeFileSync(`${buildOutputFile}.yaml`, YAML.stringify(configFile.toDUUnitConfig()));
+    }
+
+    // Exports our CONF file
+    if (exportFormats.CONF) {
+      // Generates output YAML
+      const output = YAML.stringify(configFile.toDUAutoConfig());
+      fs.writeFileSync(`${buildOutputFile}.conf`, output);
+
+      // Measures output size
+      this.printScriptUsage(this.getStringByteSize(output), getSizeBudget(SizeBudgetOutput.CONF), 'CONF build', diagnostics);
+    }
+
+    // Exports our source map, so errors can be traced back to the original files
+    fs.writeFileSync(`${buildOutputFile}.map.json`, JSON.stringify(configFile.toSourceMap()));
+
+    // Exports the short names used on mangled builds, so they can be matched back to the original ones
+    const mangling = configFile.getMangling();
+    if (mangling) {
+      fs.writeFileSync(`${buildOutputFile}.mangle.json`, JSON.stringify(mangling, null, 2));
+    }
+  }
+
+  /**
+   * Loads every handler of a build into a sandboxed Lua VM with mocked slots, then runs the library and unit onStart handlers in the same order as in-game
+   * @param build The build being tested
+   * @param buildTarget The build target used
+   * @param buildResult The compiler output
+   * @param configFile The build output
+   * @param diagnostics Where any errors found are reported
+   * @returns Whether no errors were found
+   */
+  private runSmokeTest(build: Build, buildTarget: BuildTarget, buildResult: DULuaCompilerResult, configFile: DULuaConfig, diagnostics: DULuaDiagnostics): boolean {
+    CLI.status(this.CLITag, `Running onStart handlers of ${ColorScheme.buildFullName(build, buildTarget)}...`);
+
+    // Anything printed is kept out of the build output, errors are reported on their own
+    const simulator = new DULuaSimulator(configFile, buildResult, {
+      onPrint: () => {},
+      instructionLimit: this.smokeInstructionLimit,
+    });
+
+    // Syntax errors stop us right away, otherwise we start the script, errors caught by the error handling wrapper also count
+    let errors = simulator.check();
+    if (errors.length == 0) {
+      simulator.start();
+      errors = [...simulator.getErrors(), ...simulator.getHandledErrors()];
+    }
+    simulator.close();
+
+    // Reports errors back on their original files
+    for (const error of errors) {
+      diagnostics.error(`Smoke test failed on handler ${ColorScheme.highlight(error.handler || 'unknown')}: ${error.message}`, error.location
+        ? { file: buildResult.sources[error.location.source] || error.location.source, line: error.location.line }
+        : {});
+    }
+    return errors.length == 0;
+  }
+
+  /**
+   * Prints a build's size breakdown and saves it as JSON and HTML next to its outputs
+   * @param project The project being built
+   * @param build The build being reported
+   * @param buildTarget The build target used
+   * @param buildResult The compiler output
+   * @param configFile The build output
+   */
+  private writeSizeReport(project: Project, build: Build, buildTarget: BuildTarget, buildResult: DULuaCompilerResult, configFile: DULuaConfig) {
+    const report = DULuaSizeReport.fromConfig(buildResult, buildTarget, configFile);
+    const buildOutputFile = path.join(project.getOutputDirectory(), buildTarget.name, build.name);
+
+    CLI.status(this.CLITag, `Size report for ${ColorScheme.buildFullName(build, buildTarget)}:`);
+    CLI.print(DULuaSizeReport.toTable(report));
+
+    fs.writeFileSync(`${buildOutputFile}.report.json`, DULuaSizeReport.toJSON(report));
+    fs.writeFileSync(`${buildOutputFile}.report.html`, DULuaSizeReport.toHTML(report));
+    CLI.status(this.CLITag, `Size report saved to ${ColorScheme.highlight(`${buildOutputFile}.report.json`)} and ${ColorScheme.highlight(`${buildOutputFile}.report.html`)}`);
+  }
+
+  /**
+   * Copies a build's output to the clipboard
+   * @param build The build being copied
+   * @param buildTarget The build target used
+   * @param configFile The build output
+   */
+  async copyToClipboard(build: Build, buildTarget: BuildTarget, configFile: DULuaConfig) {
+    // Loads clipboardy
+    const clipboard = (await import("clipboardy")).default;
+
+    // Copies to clipboard
+    switch (build.type) {
+      case BuildType.ControlUnit:
+        clipboard.writeSync(JSON.stringify(configFile.toDUUnitConfig()));
+        break;
+      case BuildType.RenderScript:
+        clipboard.writeSync(configFile.getMainCode());
+        break;
+    }
+
+    // Notifies user
+    CLI.success(`Build ${ColorScheme.highlight(build.getFullName(buildTarget))} successfully copied to clipboard!`);
+  }
+
   /**
    * Gets the Byte size of a string
    * @param str The string
@@ -235,19 +428,34 @@ export default class BuildProjectCommand implements Command {
   }
 
   /**
-   * Prints script size usage
+   * Prints script size usage, going over budget either warns or reports an error depending on the budget's severity
    * @param currentBytes The current size of script
-   * @param maxBytes The max size of the script
+   * @param budget The size budget of the script
+   * @param buildType The kind of output being measured
+   * @param diagnostics Where any size warnings and errors are reported
    */
-  private printScriptUsage(currentBytes: number, maxBytes: number, buildType: string = 'Build') {
-    const percentage = 100 * currentBytes / maxBytes;
-    const message = `${CLI.formatByteSize(currentBytes)} out of ${CLI.formatByteSize(maxBytes)} (${percentage.toFixed(2)}%)`;
+  private printScriptUsage(currentBytes: number, budget: SizeBudget, buildType: string = 'Build', diagnostics?: DULuaDiagnostics) {
+    const percentage = 100 * currentBytes / budget.maxBytes;
+    const message = `${CLI.formatByteSize(currentBytes)} out of ${CLI.formatByteSize(budget.maxBytes)} (${percentage.toFixed(2)}%)`;
     
-    if (percentage > 100) {
-      CLI.warn(`${buildType} is too large! Using ${message}`);
-      CLI.warn(`${buildType} contents might not persist in-game!`);
-    } else if (percentage > 90) {
+    // Outputs over the game limits might not persist in-game (even when the budget set on project.json is higher), otherwise they're just over the budget
+    const isOverGameLimit = currentBytes > budget.gameLimit;
+    if (percentage > 100 || isOverGameLimit) {
+      const details = isOverGameLimit ? `${buildType} contents might not persist in-game, the game only accepts up to ${CLI.formatByteSize(budget.gameLimit)}!` : `${buildType} is over its size budget!`;
+      const diagnostic = `${buildType} is too large! Using ${message}, ${isOverGameLimit ? `its contents might not persist in-game (limit is ${CLI.formatByteSize(budget.gameLimit)})` : 'over its size budget'}`;
+
+      if (budget.severity == SizeBudgetSeverity.Error) {
+        CLI.error(`${buildType} is too large! Using ${message}`);
+        CLI.error(details);
+        diagnostics?.error(diagnostic);
+      } else {
+        CLI.warn(`${buildType} is too large! Using ${message}`);
+        CLI.warn(details);
+        diagnostics?.warning(diagnostic);
+      }
+    } else if (percentage > 100 - budget.headroom) {
       CLI.warn(`${buildType} size: ${message}`);
+      diagnostics?.warning(`${buildType} size: ${message}`);
     } else {
       CLI.status(this.CLITag, `${buildType} size: ${message}`);
     }
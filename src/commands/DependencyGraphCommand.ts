@@ -0,0 +1,80 @@
+import fs from "fs";
+import path from "path";
+import { CLI } from "../lib/CLI";
+import ColorScheme from "../lib/ColorScheme";
+import CommandParser from "../lib/CommandParser";
+import { DULuaCompiler } from "../lib/DULuaCompiler";
+import { DULuaDependencyGraph, DULuaDependencyGraphData } from "../lib/DULuaDependencyGraph";
+import Project from "../types/Project";
+import { SimpleMap } from "../types/SimpleMap";
+import Command, { CommandData } from "./Command";
+
+/**
+ * A command that prints the require graph of a build
+ */
+export default class DependencyGraphCommand implements Command {
+  // Sets the values we'll be using on the main CLI
+  command = 'deps';
+  description = `Prints the require graph of a build as a tree, DOT (Graphviz) or JSON. If no target is provided, the first is selected`;
+  args = ['build-target/build-name'];
+  options = {
+    format: {
+      format: `tree|dot|json`,
+      description: 'The output format, defaults to "tree"',
+    },
+    output: {
+      format: `file`,
+      description: 'Saves the graph to a file instead of printing it',
+    },
+    'var:name': {
+      format: `true`,
+      description: 'Sets the compiler variable "name" to "true"',
+    },
+  };
+
+  // This is out CLI tag to show when generating graphs
+  private CLITag = 'DEPS';
+
+  // Each of the supported formats
+  private formats: SimpleMap<(graph: DULuaDependencyGraphData) => string> = {
+    tree: DULuaDependencyGraph.toTree,
+    dot: DULuaDependencyGraph.toDot,
+    json: DULuaDependencyGraph.toJSON,
+  };
+
+  // This is what runs our command
+  async run({ args, options }: CommandData) {
+    // Gets current project
+    const project = Project.load(process.cwd());
+
+    // Gets our build, if no target is provided, the first is selected
+    const [buildArg] = args;
+    if (!buildArg) {
+      CLI.panic(`No build provided!`);
+    }
+    // Checks the output format
+    const format: string = options.format || 'tree';
+    if (!this.formats[format]) {
+      CLI.panic(`Invalid format ${ColorScheme.highlight(format)}, valid formats are: ${Object.keys(this.formats).map((format) => ColorScheme.highlight(format)).join(', ')}`);
+    }
+
+    // Fetches the build and target
+    const { build, buildTarget } = CommandParser.findBuild(project, buildArg);
+
+    // Compiles the build, so we know exactly what's required
+    CLI.status(this.CLITag, `Compiling ${ColorScheme.buildFullName(build, buildTarget)} to generate its dependency graph...`);
+    const buildResult = await DULuaCompiler.compile(project, build, buildTarget, CommandParser.extractCompilerVariables(options));
+    const output = this.formats[format](DULuaDependencyGraph.fromCompilerResult(buildResult));
+
+    // Saves or prints the graph
+    CLI.skip();
+    if (options.output && true !== options.output) {
+      const outputFile = path.resolve(options.output);
+      fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+      fs.writeFileSync(outputFile, output);
+      CLI.success(`Dependency graph saved to ${ColorScheme.highlight(outputFile)}`);
+    } else {
+      CLI.print(output);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,141 @@
+import Colors from "colors";
+import { CLI } from "../lib/CLI";
+import ColorScheme from "../lib/ColorScheme";
+import CommandParser from "../lib/CommandParser";
+import { DULuaCompiler } from "../lib/DULuaCompiler";
+import { DULuaConfig } from "../lib/DULuaConfig";
+import { DULuaSimulator } from "../lib/DULuaSimulator";
+import { BuildType } from "../types/Build";
+import Project from "../types/Project";
+import Scenario from "../types/Scenario";
+import Command, { CommandData } from "./Command";
+
+/**
+ * A command that runs a Control Unit build against mocked slots, driven by a scenario file
+ */
+export default class RunScenarioCommand implements Command {
+  // Sets the values we'll be using on the main CLI
+  command = 'run';
+  description = `Runs a Control Unit build in an embedded Lua VM with mocked slots, triggering the events listed on a scenario file (YAML or JSON). If no target is provided, the first is selected`;
+  args = ['build-target/build-name', 'scenario-file'];
+  options = {
+    'no-calls': {
+      format: `true`,
+      description: 'Only prints the script output, without the calls made to slots',
+    },
+    'instruction-limit': {
+      format: `count`,
+      description: 'How many Lua instructions each handler can run before failing as an infinite loop, defaults to 10000000',
+    },
+    'var:name': {
+      format: `true`,
+      description: 'Sets the compiler variable "name" to "true"',
+    },
+  };
+
+  // This is out CLI tag to show when running scenarios
+  private CLITag = 'RUN';
+
+  // How many Lua instructions each handler can run, unless overridden
+  private defaultInstructionLimit = 10000000;
+
+  // This is what runs our command
+  async run({ args, options }: CommandData) {
+    // Gets current project
+    const project = Project.load(process.cwd());
+
+    // Gets our build and scenario, if no target is provided, the first is selected
+    const [buildArg, scenarioFile] = args;
+    if (!buildArg) {
+      CLI.panic(`No build provided!`);
+    }
+    if (!scenarioFile) {
+      CLI.panic(`No scenario file provided!`);
+    }
+    const scenario = Scenario.load(scenarioFile);
+
+    // Checks our instruction limit
+    const instructionLimit = undefined === options['instruction-limit'] ? this.defaultInstructionLimit : Number(options['instruction-limit']);
+    if (!Number.isInteger(instructionLimit) || instructionLimit <= 0) {
+      CLI.panic(`Invalid instruction limit ${ColorScheme.highlight(`${options['instruction-limit']}`)}, it must be a positive whole number`);
+    }
+
+    // Fetches the build and target
+    const { build, buildTarget } = CommandParser.findBuild(project, buildArg);
+    if (build.type != BuildType.ControlUnit) {
+      CLI.panic(`Only Control Unit builds can be run, ${ColorScheme.highlight(build.name)} is of type ${ColorScheme.highlight(build.type)}`);
+    }
+
+    // Compiles the build, we run exactly the same handlers exported to the game
+    CLI.status(this.CLITag, `Compiling ${ColorScheme.buildFullName(build, buildTarget)}...`);
+    const buildResult = await DULuaCompiler.compile(project, build, buildTarget, CommandParser.extractCompilerVariables(options));
+    const configFile = DULuaConfig.fromCompilerResult(buildResult, buildTarget);
+
+    // Prepares our simulator, printing the output and calls as they happen
+    const simulator = new DULuaSimulator(configFile, buildResult, {
+      onPrint: (message) => CLI.print(`  ${message}`),
+      onCall: (slot, method, args) => {
+        if (options['no-calls'] || (slot == 'system' && method == 'print')) return;
+        CLI.print(`  ${Colors.gray(`${slot}.${method}(${this.formatArgs(args)})`)}`);
+      },
+      instructionLimit,
+    });
+    for (const slot in scenario.mocks) {
+      simulator.setMockValues(slot, scenario.mocks[slot]);
+    }
+
+    // Runs the scenario
+    CLI.skip();
+    CLI.status(this.CLITag, `[${this.formatTime(0)}] Starting script`);
+    simulator.start();
+    for (const step of scenario.steps) {
+      for (let idx = 0; idx < step.repeat && !simulator.isStopped(); idx++) {
+        const time = step.at + step.interval * idx;
+        const eventArgs = step.argsCode ? simulator.evaluateArgs(step.argsCode) : step.args;
+        simulator.setTime(time);
+
+        CLI.status(this.CLITag, `[${this.formatTime(time)}] ${step.slot}.${step.event}(${this.formatArgs(eventArgs)})`);
+        if (simulator.trigger(step.slot, step.event, eventArgs) == 0) {
+          CLI.warn(`No handlers found for ${ColorScheme.highlight(`${step.slot}.${step.event}`)}, make sure the event is enabled on your build`);
+        }
+      }
+    }
+    if (!simulator.isStopped()) {
+      CLI.status(this.CLITag, `Stopping script`);
+      simulator.stop();
+    }
+
+    // Reports any errors, including the ones caught by the error handling wrapper (which don't stop the script)
+    const errors = [...simulator.getErrors(), ...simulator.getHandledErrors()];
+    simulator.close();
+    CLI.skip();
+    if (errors.length > 0) {
+      errors.forEach((error) => {
+        CLI.error(error.message);
+        if (error.location) {
+          CLI.error(`Error originated at ${ColorScheme.highlight(`${error.location.source}:${error.location.line}`)}${error.location.approximate ? ' (approximate)' : ''}`);
+        }
+      });
+      process.exit(1);
+    }
+    CLI.success(`Scenario ${ColorScheme.highlight(scenarioFile)} finished successfully`);
+  }
+
+  /**
+   * Formats a list of arguments as they'd be written in Lua
+   * @param args The arguments
+   */
+  private formatArgs(args: any[]): string {
+    return args
+      .map((arg) => 'string' == typeof arg ? `'${arg.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'` : null === arg ? 'nil' : 'object' == typeof arg ? JSON.stringify(arg) : `${arg}`)
+      .join(', ');
+  }
+
+  /**
+   * Formats the in-game time
+   * @param time The time in seconds
+   */
+  private formatTime(time: number): string {
+    return `${time.toFixed(2)}s`;
+  }
+}
\ No newline at end of file
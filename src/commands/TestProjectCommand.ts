@@ -0,0 +1,122 @@
+import fs from "fs";
+import path from "path";
+import Colors from "colors";
+import { CLI } from "../lib/CLI";
+import ColorScheme from "../lib/ColorScheme";
+import CommandParser from "../lib/CommandParser";
+import { DULuaCoverage } from "../lib/DULuaCoverage";
+import { DULuaDiagnostics } from "../lib/DULuaDiagnostics";
+import { DULuaTestFileResult, DULuaTestRunner } from "../lib/DULuaTestRunner";
+import BuildTarget from "../types/BuildTarget";
+import Project from "../types/Project";
+import Command, { CommandData } from "./Command";
+
+/**
+ * A command that runs the project's Lua tests
+ */
+export default class TestProjectCommand implements Command {
+  // Sets the values we'll be using on the main CLI
+  command = 'test';
+  description = `Runs the project's tests ("*_test.lua" files on the source directory and Lua files on "spec") in an embedded Lua 5.3 VM, optionally only the ones on the provided path`;
+  args = ['path'];
+  options = {
+    target: {
+      format: `build-target`,
+      description: 'The build target whose compiler variables are used, defaults to the first one',
+    },
+    'var:name': {
+      format: `true`,
+      description: 'Sets the compiler variable "name" to "true"',
+    },
+    coverage: {
+      format: `true`,
+      description: 'Measures which lines of your source files (excluding tests and libraries) were run, printing a summary and saving it as LCOV and HTML in the "coverage" output directory',
+    },
+  };
+
+  // This is out CLI tag to show when testing
+  private CLITag = 'TEST';
+
+  // This is what runs our command
+  async run({ args, options }: CommandData) {
+    // Gets current project
+    const project = Project.load(process.cwd());
+
+    // Picks the build target, tests can also run on projects without any
+    const buildTargetName: string | undefined = options.target && true !== options.target ? options.target : undefined;
+    const buildTarget = (buildTargetName || project.getProjectBuildTargets().length > 0)
+      ? CommandParser.findBuildTarget(project, buildTargetName)
+      : new BuildTarget({ name: 'test' });
+
+    // Finds our tests, optionally filtering them by path
+    const filter = args[0] ? path.resolve(args[0]) : null;
+    const files = DULuaTestRunner.findTestFiles(project)
+      .filter((file) => !filter || file == filter || file.startsWith(filter + path.sep));
+    if (files.length == 0) {
+      CLI.warn(`No test files found, tests are "*${DULuaTestRunner.testSuffix}" files on your source directory or Lua files on "${DULuaTestRunner.specDirectory}"`);
+      return;
+    }
+
+    // Runs each of the files, the test files themselves are never part of the coverage
+    const variables = CommandParser.extractCompilerVariables(options);
+    const coverage = options.coverage ? new DULuaCoverage(project, DULuaTestRunner.findTestFiles(project)) : undefined;
+    const results: DULuaTestFileResult[] = [];
+    for (const file of files) {
+      CLI.status(this.CLITag, `Running ${ColorScheme.highlight(DULuaDiagnostics.getDisplayPath(project, file))}...`);
+      const result = await DULuaTestRunner.runFile(project, buildTarget, file, variables, coverage);
+      results.push(result);
+
+      // Prints the results of the file
+      result.tests.forEach((test) => {
+        if (test.passed) {
+          CLI.print(`  ${Colors.green('PASS')} ${test.name}`);
+        } else {
+          CLI.print(`  ${Colors.red('FAIL')} ${test.name}`);
+          CLI.print(`       ${Colors.red(test.message || 'Unknown error')}`);
+        }
+      });
+      if (result.error) {
+        CLI.error(`${ColorScheme.highlight(result.file)} failed to run:`, result.error);
+      }
+    }
+
+    // Prints our summary
+    const allTests = results.flatMap((result) => result.tests);
+    const passed = allTests.filter((test) => test.passed).length;
+    const failed = allTests.length - passed;
+    const failedFiles = results.filter((result) => result.error).length;
+    const summary = `${passed} passed, ${failed} failed, ${allTests.length} tests in ${results.length} files`;
+
+    // Prints and saves our coverage
+    if (coverage) {
+      this.writeCoverage(project, coverage);
+    }
+
+    CLI.skip();
+    if (failed > 0 || failedFiles > 0) {
+      CLI.error(`${summary}${failedFiles > 0 ? `, ${failedFiles} files failed to run` : ''}`);
+      process.exit(1);
+    }
+    CLI.success(summary);
+  }
+
+  /**
+   * Prints the coverage summary and saves it as LCOV and HTML on the output directory
+   * @param project The project being tested
+   * @param coverage The coverage collected
+   */
+  private writeCoverage(project: Project, coverage: DULuaCoverage) {
+    const coverageDirectory = path.join(project.getOutputDirectory(), 'coverage');
+    if (!fs.existsSync(coverageDirectory)) {
+      fs.mkdirSync(coverageDirectory, { recursive: true });
+    }
+
+    CLI.skip();
+    CLI.status(this.CLITag, `Coverage:`);
+    CLI.print(coverage.toTable());
+
+    fs.writeFileSync(path.join(coverageDirectory, 'lcov.info'), coverage.toLCOV());
+    fs.writeFileSync(path.join(coverageDirectory, 'index.html'), coverage.toHTML());
+    CLI.status(this.CLITag, `Coverage saved to ${ColorScheme.highlight(path.join(coverageDirectory, 'lcov.info'))} and ${ColorScheme.highlight(path.join(coverageDirectory, 'index.html'))}`);
+  }
+}
\ No newline at end of file
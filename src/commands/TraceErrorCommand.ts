@@ -0,0 +1,201 @@
+import fs from "fs";
+import path from "path";
+import { CLI } from "../lib/CLI";
+import ColorScheme from "../lib/ColorScheme";
+import CommandParser from "../lib/CommandParser";
+import { DULuaCompiler } from "../lib/DULuaCompiler";
+import { DULuaConfig } from "../lib/DULuaConfig";
+import { DULuaSourceLocation } from "../lib/DULuaMappedCode";
+import { DULuaSourceMap, DULuaSourceMapData, DULuaSourceMapSegment } from "../lib/DULuaSourceMap";
+import Utils from "../lib/Utils";
+import { BuildType } from "../types/Build";
+import Project from "../types/Project";
+import Command, { CommandData } from "./Command";
+
+/**
+ * Represents a piece of output code where an error might have happened
+ */
+type TraceErrorChunk = {
+  description: string,
+  slot?: string,
+  event?: string,
+  name?: string,
+  code: string,
+  segments: DULuaSourceMapSegment[],
+};
+
+/**
+ * A command that translates in-game errors back into source locations
+ */
+export default class TraceErrorCommand implements Command {
+  // Sets the values we'll be using on the main CLI
+  command = 'trace';
+  description = `Finds the original file and line for an error message copied from the in-game Lua chat`;
+  args = ['build-target/build-name', 'error-message'];
+  options = {
+    conf: {
+      format: `true`,
+      description: 'Uses the line numbers of the CONF (autoconf) build instead of the JSON one',
+    },
+    'var:name': {
+      format: `true`,
+      description: 'Sets the compiler variable "name" to "true", use the same variables as when building',
+    },
+  };
+
+  // This is out CLI tag to show when tracing
+  private CLITag = 'TRACE';
+
+  // This is what runs our command
+  async run({ args, options }: CommandData) {
+    // Gets current project
+    const project = Project.load(process.cwd());
+
+    // Gets our args, the error message might have been passed without quotes
+    const [buildArg, ...messageParts] = args;
+    const message = messageParts.join(' ');
+    if (!buildArg) {
+      CLI.panic(`No build provided!`);
+    }
+    if (!message) {
+      CLI.panic(`No error message provided!`);
+    }
+
+    // Fetches the build and target, if no target is provided, the first is selected
+    const { build, buildTarget } = CommandParser.findBuild(project, buildArg);
+
+    // Rebuilds the project so we can get an up-to-date source map, make sure to use the same variables as the in-game build!
+    CLI.status(this.CLITag, `Rebuilding ${ColorScheme.buildFullName(build, buildTarget)} to generate its source map...`);
+    const buildResult = await DULuaCompiler.compile(project, build, buildTarget, CommandParser.extractCompilerVariables(options));
+    const configFile = DULuaConfig.fromCompilerResult(buildResult, buildTarget);
+    const sourceMap = configFile.toSourceMap();
+
+    // Parses the error message
+    const error = DULuaSourceMap.parseErrorMessage(message);
+    CLI.skip();
+    CLI.status(this.CLITag, `Error: ${ColorScheme.highlight(error.message)}`);
+
+    // Errors from compressed code are reported relative to the expanded code
+    if (error.expanded) {
+      if (!sourceMap.expanded) {
+        CLI.panic(`The error happened inside compressed code, but build ${ColorScheme.buildFullName(build, buildTarget)} isn't compressed, make sure you're using the right build and variables`);
+      }
+
+      CLI.status(this.CLITag, `Found on compressed code, at line ${ColorScheme.highlight(error.expanded.line.toString())} of the expanded code`);
+      this.printLocation(project, sourceMap, DULuaSourceMap.findLocation(sourceMap.expanded!, error.expanded.line));
+      return;
+    }
+
+    // From now on, we need a line number to work with
+    if (!error.line) {
+      CLI.panic(`No line number found on the error message, make sure you copied it entirely`);
+    }
+
+    // Finds which handlers might have caused our error
+    let chunks = this.getChunks(configFile, sourceMap, build.type, !!options.conf)
+      .filter((chunk) => !error.chunk || chunk.code.startsWith(error.chunk));
+
+    // Handlers wrapped for error handling all start with the same code, so we prefer the ones that have the line mapped to a source file
+    const mappedChunks = chunks.filter((chunk) => DULuaSourceMap.findLocation(chunk.segments, error.line!));
+    if (chunks.length > 1 && mappedChunks.length > 0) {
+      chunks = mappedChunks;
+    }
+
+    // The handler reported by the error handling wrapper is the one that caught the error, the failing code might be a callback defined elsewhere (like on main code), so we only use it to pick between multiple matches
+    if (chunks.length > 1 && error.handler) {
+      const handler = error.handler;
+      const handlerChunks = chunks.filter((chunk) => chunk.slot == handler.slot && chunk.event == handler.event && (!handler.name || !chunk.name || chunk.name == handler.name));
+      if (handlerChunks.length > 0) {
+        chunks = handlerChunks;
+      }
+    }
+
+    // Nothing found
+    if (chunks.length == 0) {
+      CLI.panic([
+        `Could not find the code that caused this error on build ${ColorScheme.buildFullName(build, buildTarget)}`,
+        `Make sure your build is up-to-date and you're using the same variables as when it was built${options.conf || build.type == BuildType.RenderScript ? '' : `, if you installed it via autoconf use ${ColorScheme.highlight('--conf')}`}`,
+      ].join('\n'));
+    }
+
+    // Multiple handlers might start with the same code, in that case we print all of them
+    if (chunks.length > 1) {
+      CLI.warn(`The error could have happened on ${chunks.length} different handlers, showing all of them`);
+    }
+
+    // Prints each of the locations
+    for (const chunk of chunks) {
+      CLI.skip();
+      CLI.status(this.CLITag, `Found on ${ColorScheme.highlight(chunk.description)}, at line ${ColorScheme.highlight(error.line!.toString())}`);
+      this.printLocation(project, sourceMap, DULuaSourceMap.findLocation(chunk.segments, error.line!));
+    }
+  }
+
+  /**
+   * Lists the pieces of code where errors can happen on a build
+   * @param configFile The build output
+   * @param sourceMap The build source map
+   * @param buildType The type of the build
+   * @param useAutoConfig Whether we should use the CONF format handlers instead of JSON ones
+   */
+  private getChunks(configFile: DULuaConfig, sourceMap: DULuaSourceMapData, buildType: BuildType, useAutoConfig: boolean): TraceErrorChunk[] {
+    // Render Scripts have all their code in a single chunk
+    if (buildType == BuildType.RenderScript) {
+      return [{
+        description: 'Render Script',
+        code: configFile.getMainCode(),
+        segments: sourceMap.main,
+      }];
+    }
+
+    // CONF files have all handlers for the same event merged
+    if (useAutoConfig) {
+      const handlers = configFile.toDUAutoConfig().handlers;
+      return sourceMap.autoconf.map((chunk) => ({
+        description: `${chunk.slot}.${chunk.event}`,
+        slot: chunk.slot,
+        event: chunk.event,
+        code: handlers[chunk.slot][chunk.event].lua,
+        segments: chunk.segments,
+      }));
+    }
+
+    // Otherwise, we use the JSON format handlers
+    const handlers = configFile.toDUUnitConfig().handlers;
+    return sourceMap.handlers.map((chunk) => ({
+      description: chunk.name ? `${chunk.name} (${chunk.slot}.${chunk.event})` : `${chunk.slot}.${chunk.event}`,
+      slot: chunk.slot,
+      event: chunk.event,
+      name: chunk.name,
+      code: handlers.find((handler) => handler.key == chunk.key)?.code || '',
+      segments: chunk.segments,
+    }));
+  }
+
+  /**
+   * Prints a source location along with its code
+   * @param project The current project
+   * @param sourceMap The build source map
+   * @param location The location being printed
+   */
+  private printLocation(project: Project, sourceMap: DULuaSourceMapData, location: DULuaSourceLocation | null) {
+    // Generated code doesn't point to any source file
+    if (!location) {
+      CLI.warn(`This line was generated by the compiler and doesn't belong to any of your files`);
+      return;
+    }
+
+    // Prints the source location
+    const file = sourceMap.sources[location.source];
+    CLI.status(this.CLITag, `Source: ${ColorScheme.highlight(`${file || location.source}:${location.line}`)}`);
+    if (location.approximate) {
+      CLI.warn(`This build is minified, so the line number is approximate`);
+    }
+
+    // Prints the code frame, when the file is available
+    const filePath = file && path.join(project.getProjectDirectory(), file);
+    if (filePath && fs.existsSync(filePath)) {
+      CLI.print(ColorScheme.code(Utils.createCodeFrame(fs.readFileSync(filePath).toString(), location.line)));
+    }
+  }
+}
\ No newline at end of file
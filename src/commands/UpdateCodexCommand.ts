@@ -4,6 +4,7 @@ import Command, { CommandData } from "./Command";
 import Application from "../Application";
 import { CLI } from "../lib/CLI";
 import LuaDocBuilder from "../lib/LuaDocBuilder";
+import LuaMockBuilder from "../lib/LuaMockBuilder";
 import Codex from "../types/Codex";
 import Utils from "../lib/Utils";
 import path from "path";
@@ -44,6 +45,13 @@ export default class UpdateCodexCommand implements Command {
     // Writes the new Lua Codex
     fs.writeFileSync(Application.getPath('Codex/Codex.lua'), luaCodex);
 
+    // Status update
+    CLI.print('Building Lua mocks...');
+
+    // Builds and writes the mocks used when running Lua locally
+    const luaMocks = (new LuaMockBuilder(updatedCodex as Codex)).build();
+    fs.writeFileSync(Application.getPath('Codex/Mocks.lua'), luaMocks);
+
     // Done
     CLI.success('Codex updated successfully!');
   }
@@ -0,0 +1,343 @@
+import fs from "fs";
+import path from "path";
+import { CLI } from "../lib/CLI";
+import ColorScheme from "../lib/ColorScheme";
+import CommandParser from "../lib/CommandParser";
+import Build, { BuildType } from "../types/Build";
+import BuildTarget from "../types/BuildTarget";
+import { CompilerVariableSet } from "../types/CompilerVariable";
+import Project from "../types/Project";
+import { SimpleMap } from "../types/SimpleMap";
+import BuildProjectCommand from "./BuildProjectCommand";
+import Command, { CommandData, CommandOptions } from "./Command";
+
+/**
+ * Represents a build being watched for changes
+ */
+type WatchProjectEntry = {
+  build: Build,
+  buildTarget: BuildTarget,
+  dependencies: string[],
+  hasFailed: boolean,
+};
+
+/**
+ * A command that watches the project for changes, rebuilding it as needed
+ */
+export default class WatchProjectCommand implements Command {
+  // Sets the values we'll be using on the main CLI
+  command = 'watch';
+  description = `Watches the project for changes, rebuilding only the builds affected by each change`;
+  args = ['build-target/build-name'];
+  options = {
+    copy: {
+      format: `target-name/${ColorScheme.highlightArgument('build-name')}`,
+      description: `Copies the specified build's JSON into your clipboard after each rebuild. If no target is provided, the first is selected`,
+    },
+    'var:name': {
+      format: `true`,
+      description: 'Sets the compiler variable "name" to "true"',
+    },
+    'no-cache': {
+      format: `true`,
+      description: 'Processes all files again on every rebuild, ignoring any cached results',
+    },
+  };
+
+  // This is out CLI tag to show when watching
+  private CLITag = 'WATCH';
+
+  // How long we wait for more changes before rebuilding, in milliseconds
+  private debounceTime = 250;
+
+  // Used to build the actual files
+  private builder = new BuildProjectCommand();
+
+  // The project being watched
+  private project!: Project;
+
+  // The builds being watched
+  private entries: WatchProjectEntry[] = [];
+
+  // The directories being watched
+  private watchers: SimpleMap<fs.FSWatcher> = {};
+
+  // Whether directories can be watched recursively, older Node versions can't do that on Linux
+  private isRecursiveWatchSupported = true;
+
+  // Files changed since the last rebuild
+  private changedFiles: Set<string> = new Set();
+
+  // Whether a rebuild is happening right now
+  private isBuilding = false;
+
+  // Pending rebuild timer
+  private rebuildTimer: NodeJS.Timeout | null = null;
+
+  // The build selection and compiler variables passed via command-line
+  private specificBuildArg: string | null = null;
+  private variables: CompilerVariableSet = {};
+  private commandOptions: CommandOptions = {};
+
+  // This is what runs our command
+  async run({ args, options }: CommandData) {
+    // Saves our parameters, as we'll need them for every rebuild
+    this.specificBuildArg = args[0] || null;
+    this.variables = CommandParser.extractCompilerVariables(options);
+    this.commandOptions = options;
+
+    // Does a first build of everything
+    await this.loadProject();
+
+    // Keeps running until the user stops the process
+    CLI.success(`Watching for changes, press ${ColorScheme.highlight('Ctrl+C')} to stop`);
+    return new Promise(() => {});
+  }
+
+  /**
+   * Loads (or reloads) the project, building all selected builds
+   */
+  private async loadProject() {
+    // Gets current project
+    this.project = Project.load(process.cwd());
+
+    // Optionally watch a single target
+    let specificBuildTarget: string | null = null;
+    let specificBuildName: string | null = null;
+    if (this.specificBuildArg) {
+      const parsed = this.specificBuildArg.split('/');
+      specificBuildTarget = parsed.shift() || null;
+      specificBuildName = parsed.length > 0 ? parsed.join('/') : null;
+    }
+
+    // Fetches list of builds and targets
+    const builds = this.project.getProjectBuilds().filter(build => !specificBuildName || build.name == specificBuildName);
+    const buildTargets = this.project.getProjectBuildTargets().filter(target => !specificBuildTarget || target.name == specificBuildTarget);
+
+    // Checks if they exist
+    if (builds.length == 0) {
+      CLI.error(`Build ${ColorScheme.highlight(specificBuildName!)} was not found on this project`);
+      CLI.error(`Available builds: ${this.project.getProjectBuilds().map(build => ColorScheme.highlight(build.name)).join(', ')}`);
+      process.exit(1);
+    }
+    if (buildTargets.length == 0) {
+      CLI.error(`Build target ${ColorScheme.highlight(specificBuildTarget!)} was not found on this project`);
+      CLI.error(`Available build targets: ${this.project.getProjectBuildTargets().map(target => ColorScheme.highlight(target.name)).join(', ')}`);
+      process.exit(1);
+    }
+
+    // Creates our entries
+    this.entries = [];
+    for (const build of builds) {
+      // In old projects, build types use "control" as default build type
+      if (this.project.getProjectFormat() < 5) build.type = build.type || BuildType.ControlUnit;
+
+      for (const buildTarget of buildTargets) {
+        this.entries.push({
+          build,
+          buildTarget,
+          dependencies: [],
+          hasFailed: false,
+        });
+      }
+    }
+
+    // Builds everything
+    await this.rebuildEntries(this.entries);
+  }
+
+  /**
+   * Rebuilds a list of entries, updating their dependencies and watched directories
+   * @param entries The entries being rebuilt
+   * @returns Whether all entries were built successfully
+   */
+  private async rebuildEntries(entries: WatchProjectEntry[]): Promise<boolean> {
+    let hasUsedClipboard = false;
+    let isSuccessful = true;
+
+    for (const entry of entries) {
+      try {
+        const { buildResult, configFile } = await this.builder.runBuild(this.project, entry.build, entry.buildTarget, this.variables, !this.commandOptions['no-cache']);
+        // Files where requires weren't found are also dependencies, so creating them rebuilds the entry
+        entry.dependencies = [...buildResult.dependencies, ...buildResult.missingFiles];
+        entry.hasFailed = false;
+
+        // Copies our build to the clipboard, if needed
+        if (this.commandOptions.copy && !hasUsedClipboard && this.isClipboardEntry(entry)) {
+          hasUsedClipboard = true;
+          await this.builder.copyToClipboard(entry.build, entry.buildTarget, configFile);
+        }
+      } catch (err) {
+        // Errors shouldn't stop us from watching, the build will be retried on the next change
+        entry.hasFailed = true;
+        CLI.error(`Build ${ColorScheme.buildFullName(entry.build, entry.buildTarget)} failed:`);
+        CLI.error(err instanceof Error ? err.message : err);
+        isSuccessful = false;
+      }
+
+      // Empty line for visibility
+      CLI.skip();
+    }
+
+    // Updates what we're watching, as dependencies might have changed
+    this.updateWatchers();
+
+    return isSuccessful;
+  }
+
+  /**
+   * Checks if an entry should be copied to the clipboard, same as the build command
+   * @param entry The entry being checked
+   */
+  private isClipboardEntry(entry: WatchProjectEntry): boolean {
+    // Without a target, the first one is selected
+    const copy = this.commandOptions.copy === true
+      ? this.entries[0].build.getFullName(this.entries[0].buildTarget)
+      : this.commandOptions.copy.includes('/')
+        ? this.commandOptions.copy
+        : `${this.project.getProjectBuildTargets()[0].name}/${this.commandOptions.copy}`;
+
+    return entry.build.getFullName(entry.buildTarget) == copy;
+  }
+
+  /**
+   * Updates the list of directories being watched: the project and library sources, plus the directories of any other dependencies
+   */
+  private updateWatchers() {
+    const roots = this.getWatchedRoots();
+
+    // Any dependencies outside those directories have their own directories watched
+    const extraDirectories = this.entries
+      .reduce((files: string[], entry) => files.concat(entry.dependencies), [])
+      .filter((file) => !roots.some((root) => file.startsWith(root + path.sep)))
+      .map((file) => path.dirname(file));
+
+    // Creates any missing watchers, including one for the project file
+    // Our source directories are watched recursively, when that's not supported each of their directories is watched on its own
+    const directories: SimpleMap<boolean> = {};
+    roots.forEach((dir) => {
+      if (this.isRecursiveWatchSupported) {
+        directories[dir] = true;
+      } else {
+        this.listDirectories(dir).forEach((subdir) => directories[subdir] = false);
+      }
+    });
+    extraDirectories.forEach((dir) => directories[dir] = directories[dir] || false);
+    directories[this.project.getProjectDirectory()] = directories[this.project.getProjectDirectory()] || false;
+    for (const dir in directories) {
+      if (this.watchers[dir] || !fs.existsSync(dir)) continue;
+
+      try {
+        this.watchers[dir] = fs.watch(dir, { recursive: directories[dir] }, (event, filename) => {
+          if (filename) this.onFileChanged(path.resolve(dir, filename.toString()));
+        });
+      } catch (err: any) {
+        // Falls back to watching each directory on its own
+        if (directories[dir] && err?.code == 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+          this.isRecursiveWatchSupported = false;
+          this.updateWatchers();
+          return;
+        }
+        throw err;
+      }
+    }
+
+    // Removes any watchers no longer needed
+    for (const dir in this.watchers) {
+      if (undefined === directories[dir]) {
+        this.watchers[dir].close();
+        delete this.watchers[dir];
+      }
+    }
+  }
+
+  /**
+   * Gets the directories whose changes (including on any subdirectories) can affect our builds: the project and library sources
+   */
+  private getWatchedRoots(): string[] {
+    return [
+      this.project.getSourceDirectory(),
+      ...this.project.getLibraries().map((library) => library.sourcePath),
+    ].map((dir) => path.resolve(dir));
+  }
+
+  /**
+   * Lists a directory along with all of its subdirectories, skipping hidden ones
+   * @param dir The directory being listed
+   */
+  private listDirectories(dir: string): string[] {
+    if (!fs.existsSync(dir)) return [];
+    return [
+      dir,
+      ...fs.readdirSync(dir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+        .flatMap((entry) => this.listDirectories(path.join(dir, entry.name))),
+    ];
+  }
+
+  /**
+   * Handles a file being changed, waiting a bit for any other changes before rebuilding
+   * @param file The full path of the file changed
+   */
+  private onFileChanged(file: string) {
+    this.changedFiles.add(file);
+
+    // Restarts our timer
+    if (this.rebuildTimer) clearTimeout(this.rebuildTimer);
+    this.rebuildTimer = setTimeout(() => this.onRebuildRequested(), this.debounceTime);
+  }
+
+  /**
+   * Rebuilds anything affected by the changed files
+   */
+  private async onRebuildRequested() {
+    // Only one rebuild at a time, any changes will be handled once the current one finishes
+    if (this.isBuilding) {
+      this.rebuildTimer = setTimeout(() => this.onRebuildRequested(), this.debounceTime);
+      return;
+    }
+
+    // Gets our list of changed files
+    const changedFiles = [...this.changedFiles];
+    this.changedFiles.clear();
+
+    this.isBuilding = true;
+    try {
+      // Changes to the project file reload everything
+      if (changedFiles.includes(this.project.getProjectFile())) {
+        CLI.status(this.CLITag, `Project file changed, reloading project...`);
+        await this.loadProject();
+        return;
+      }
+
+      // New directories need their own watchers when we can't watch recursively
+      if (!this.isRecursiveWatchSupported) {
+        this.updateWatchers();
+      }
+
+      // Finds which entries were affected, failed builds might not know all of their dependencies, so any source changes retry them
+      const roots = this.getWatchedRoots();
+      const isSourceFile = (file: string) => roots.some((root) => file.startsWith(root + path.sep));
+      const isAffectedBy = (entry: WatchProjectEntry, file: string) => entry.dependencies.includes(file) || (entry.hasFailed && isSourceFile(file));
+      const affectedEntries = this.entries.filter((entry) => changedFiles.some((file) => isAffectedBy(entry, file)));
+      if (affectedEntries.length == 0) return;
+
+      // Rebuilds them
+      const changedNames = changedFiles
+        .filter((file) => affectedEntries.some((entry) => isAffectedBy(entry, file)))
+        .map((file) => ColorScheme.highlight(path.relative(this.project.getProjectDirectory(), file)));
+      CLI.status(this.CLITag, `Changed: ${changedNames.join(', ')}`);
+      CLI.status(this.CLITag, `Rebuilding ${affectedEntries.map((entry) => ColorScheme.buildFullName(entry.build, entry.buildTarget)).join(', ')}...`);
+      CLI.skip();
+      if (await this.rebuildEntries(affectedEntries)) {
+        CLI.success(`Rebuild completed, watching for changes...`);
+      } else {
+        CLI.warn(`Rebuild failed, watching for changes...`);
+      }
+    } catch (err) {
+      CLI.error(err instanceof Error ? err.message : err);
+    } finally {
+      this.isBuilding = false;
+    }
+  }
+}
\ No newline at end of file
@@ -35,6 +35,18 @@ export default class LibraryEmbedFileFunction extends CompilerFunction {
       ].join('\n'));
     }
 
+    // Handles cases where the file is not found
+    if (!fs.existsSync(embedFilePath)) {
+      throw new Error([
+        `Embedded file was not found!`,
+        `File: ${ColorScheme.highlight(embedFilePath)}`,
+        `Source: ${ColorScheme.highlight(currentFilePath)}`,
+      ].join('\n'));
+    }
+
+    // Keeps track of the file, so changes to it trigger a rebuild
+    compilerState.addDependency(embedFilePath);
+
     // Does the actual embedding
     const embedContent = fs.readFileSync(embedFilePath).toString()
       // Escapes our back slashes
@@ -38,6 +38,9 @@ export default class LibraryEmbedLuaFunction extends CompilerFunction {
       ].join('\n'));
     }
 
+    // Keeps track of the file, so changes to it trigger a rebuild
+    compilerState.addDependency(fileInfo.fullpath);
+
     // Reads raw source code
     let luaOutput = fs.readFileSync(fileInfo.fullpath).toString();
 
@@ -57,10 +60,13 @@ export default class LibraryEmbedLuaFunction extends CompilerFunction {
       buildTarget.minify = shouldMinify;
 
       // Compiles
-      const buildResult = await DULuaCompiler.compileRequire(compilerState.getCurrentProject()!, build, file, buildTarget, buildTarget.variables);
+      const buildResult = await DULuaCompiler.compileRequire(compilerState.getCurrentProject()!, build, file, buildTarget, buildTarget.variables, compilerState.getDiagnostics());
+
+      // Any files used by the embedded file are also dependencies
+      compilerState.addDependency(...buildResult.dependencies);
 
       // Saves our resulting file
-      luaOutput = DULuaConfig.fromCompilerResult(buildResult, buildTarget).getMainCode();
+      luaOutput = DULuaConfig.fromCompilerResult(buildResult, buildTarget, compilerState.getDiagnostics()).getMainCode();
     }
 
     // Does the actual embedding
@@ -20,6 +20,11 @@ import UpdateCodexCommand from './commands/UpdateCodexCommand';
 import Application from './Application';
 import CommandManager from './lib/CommandManager';
 import BuildProjectCommand from './commands/BuildProjectCommand';
+import TraceErrorCommand from './commands/TraceErrorCommand';
+import WatchProjectCommand from './commands/WatchProjectCommand';
+import DependencyGraphCommand from './commands/DependencyGraphCommand';
+import TestProjectCommand from './commands/TestProjectCommand';
+import RunScenarioCommand from './commands/RunScenarioCommand';
 
 /**
  * The main entry-point of our script
@@ -65,6 +70,11 @@ async function main(args: string[]) {
     AddBuildLinkCommand,
     AddBuildTargetCommand,
     BuildProjectCommand,
+    TraceErrorCommand,
+    WatchProjectCommand,
+    DependencyGraphCommand,
+    TestProjectCommand,
+    RunScenarioCommand,
     AddCodeCompletionCommand,
     IgnoreNativeLibrariesCommand,
     UpdateCodexCommand,
@@ -1,5 +1,11 @@
 import { CommandArguments, CommandOptions } from "../commands/Command";
 import { SimpleMap } from "../types/SimpleMap";
+import { CompilerVariableSet } from "../types/CompilerVariable";
+import Build, { BuildType } from "../types/Build";
+import BuildTarget from "../types/BuildTarget";
+import Project from "../types/Project";
+import { CLI } from "./CLI";
+import ColorScheme from "./ColorScheme";
 
 /**
  * Represents a parsed command
@@ -62,4 +68,79 @@ export default class CommandParser {
       args,
     };
   }
+
+  /**
+   * Extracts compiler variables (--var:name=value) from a set of command options, removing them from the options
+   * @param options The command options
+   */
+  static extractCompilerVariables(options: CommandOptions): CompilerVariableSet {
+    const variablePrefix = 'var:';
+    const variables: CompilerVariableSet = {};
+    for (const option in options) {
+      if (option.startsWith(variablePrefix)) {
+        // Sets variable
+        const variable = option.substring(variablePrefix.length);
+        const valueRaw = options[option];
+
+        // Here we try to convert the value into a JS value
+        let value = valueRaw;
+        try {
+          value = JSON.parse(valueRaw);
+        } catch (ex) {
+          // Nothing necessary
+        }
+        
+        // Assigns and cleans-up
+        variables[variable] = value;
+        delete options[option];
+      }
+    }
+
+    return variables;
+  }
+
+  /**
+   * Finds a build and its build target from a "build-target/build-name" argument, if no target is provided, the first is selected
+   * When either of them isn't found, the available ones are listed and the process exits
+   * @param project The current project
+   * @param buildArg The build argument
+   */
+  static findBuild(project: Project, buildArg: string): { build: Build, buildTarget: BuildTarget } {
+    // Parses the build target and name
+    const parsed = buildArg.split('/');
+    const buildTargetName = parsed.length > 1 ? parsed.shift() : undefined;
+    const buildName = parsed.join('/');
+
+    // Fetches the build and target
+    const build = project.getProjectBuilds().find((build) => build.name == buildName);
+    if (!build) {
+      CLI.error(`Build ${ColorScheme.highlight(buildName)} was not found on this project`);
+      CLI.error(`Available builds: ${project.getProjectBuilds().map(build => ColorScheme.highlight(build.name)).join(', ')}`);
+      process.exit(1);
+    }
+    const buildTarget = this.findBuildTarget(project, buildTargetName);
+
+    // In old projects, build types use "control" as default build type
+    if (project.getProjectFormat() < 5) build.type = build.type || BuildType.ControlUnit;
+
+    return { build, buildTarget };
+  }
+
+  /**
+   * Finds a build target by name, if no name is provided, the first is selected
+   * When it isn't found, the available ones are listed and the process exits
+   * @param project The current project
+   * @param buildTargetName The build target name
+   */
+  static findBuildTarget(project: Project, buildTargetName?: string): BuildTarget {
+    const name = buildTargetName ?? project.getProjectBuildTargets()[0]?.name;
+    const buildTarget = project.getProjectBuildTargets().find((target) => target.name == name);
+    if (!buildTarget) {
+      CLI.error(name ? `Build target ${ColorScheme.highlight(name)} was not found on this project` : `No build targets found on this project`);
+      CLI.error(`Available build targets: ${project.getProjectBuildTargets().map(target => ColorScheme.highlight(target.name)).join(', ')}`);
+      process.exit(1);
+    }
+
+    return buildTarget;
+  }
 }
\ No newline at end of file
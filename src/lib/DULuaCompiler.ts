@@ -9,10 +9,15 @@ import { SimpleMap } from "../types/SimpleMap";
 import { CLI } from "./CLI";
 import ColorScheme from "./ColorScheme";
 import { DULuaCompilerFunctionParser } from "./DULuaCompilerFunctionParser";
-import { DULuaCompilerExport } from "./DULuaCompilerExport";
 import BuildTarget from "../types/BuildTarget";
 import { CompilerVariable, CompilerVariableSet } from "../types/CompilerVariable";
 import Utils from "./Utils";
+import Application from "../Application";
+import GitClient from "./GitClient";
+import { DULuaPreprocessor } from "./DULuaPreprocessor";
+import { DULuaCompilerCache, DULuaCompilerCacheContext, DULuaCompilerCacheEntry } from "./DULuaCompilerCache";
+import { DULuaDiagnostics, DULuaSourceError } from "./DULuaDiagnostics";
+import { DULuaCoverage } from "./DULuaCoverage";
 
 /**
  * Represents a preload generated by the compiler
@@ -29,8 +34,22 @@ export type DULuaCompilerPreload = {
 export type DULuaCompilerResult = {
   project: Project,
   build: Build,
+  entrypoint: string,
   output: string,
   preloads: DULuaCompilerPreload[],
+  sources: SimpleMap<string>,
+  dependencies: string[],
+  missingFiles: string[],
+  requires: DULuaCompilerRequireEdge[],
+};
+
+/**
+ * Represents a require from one file into another, when not resolved, "to" has the original require string
+ */
+export type DULuaCompilerRequireEdge = {
+  from: string,
+  to: string,
+  resolved: boolean,
 };
 
 /**
@@ -54,9 +73,32 @@ export type DULuaCompilerFileInfo = {
  */
 export type DULuaCompilerRequire = {
   fullNameWithProject: string,
+  fullpath: string,
   sourceCode: string,
 };
 
+/**
+ * Represents a require call found in the source code
+ */
+export type DULuaCompilerRequireCall = {
+  start: number,
+  end: number,
+  line: number,
+  file: string | null,
+  isStatement: boolean,
+};
+
+/**
+ * Represents a compiler variable token (__VAR_name__) found in the source code
+ */
+export type DULuaCompilerVariableToken = {
+  start: number,
+  end: number,
+  line: number,
+  name: string,
+  isPrefix: boolean,
+};
+
 /**
  * Represents a compiler regular expression
  */
@@ -84,6 +126,21 @@ export class DULuaCompiler {
    */
   private requiredFiles: DULuaCompilerRequire[] = [];
 
+  /**
+   * Those are any other files used during build time, such as embedded files
+   */
+  private dependencies: string[] = [];
+
+  /**
+   * Those are the files where requires that weren't found were looked up, creating any of them changes the build
+   */
+  private missingFiles: string[] = [];
+
+  /**
+   * Those are all the requires made during build, "from" has the full path of the requiring file until the build finishes
+   */
+  private requireEdges: DULuaCompilerRequireEdge[] = [];
+
   /**
    * The current value of LUA_PATH
    */
@@ -94,6 +151,11 @@ export class DULuaCompiler {
    */
   private currentFiles: string[] = [];
 
+  /**
+   * Represents the line where each of the current files was required by its parent
+   */
+  private currentRequireLines: number[] = [];
+
   /**
    * Represents the current library being processed
    */
@@ -124,16 +186,39 @@ export class DULuaCompiler {
    */
   private buildVariables: CompilerVariableSet = {};
 
+  /**
+   * The cache of processed files, null when disabled
+   */
+  private cache: DULuaCompilerCache | null;
+
+  /**
+   * Keeps track of what each of the files being processed used, so they can be cached
+   */
+  private cacheRecords: DULuaCompilerCacheEntry[] = [];
+
+  /**
+   * How many errors were already reported when this compilation started
+   */
+  private readonly initialErrorCount: number;
+
   /**
    * Creates a new compiler instance
    * @param project The project being compiled
    * @param build The build being compiled
+   * @param buildTarget The build target being used
+   * @param variables Any extra compiler variables
+   * @param useCache Whether processed files should be cached
+   * @param diagnostics Where any errors found are reported
+   * @param coverage When set, the project's sources are instrumented to report their line coverage to it
    */
   private constructor(
     private project: Project,
     private build: Build,
     private buildTarget: BuildTarget,
-    variables: CompilerVariableSet = {}
+    variables: CompilerVariableSet = {},
+    useCache: boolean = true,
+    private diagnostics: DULuaDiagnostics = new DULuaDiagnostics(),
+    private coverage: DULuaCoverage | null = null,
   ) {
     // Prepares our source path
     this.sourceDirectories = [project.getSourceDirectory()];
@@ -154,8 +239,41 @@ export class DULuaCompiler {
       .split(';')
       .filter(entry => entry.length > 0);
 
-    // Loads our environment variables
-    this.buildVariables = Object.assign({}, buildTarget.variables || {}, variables);
+    // Loads our environment variables, built-in ones can be overriden by the build target and command-line
+    this.buildVariables = Object.assign({}, this.getBuiltInVariables(), buildTarget.variables || {}, variables);
+
+    // Prepares our cache, instrumented code is never cached
+    this.cache = useCache && !coverage ? new DULuaCompilerCache(project) : null;
+
+    // Only errors found by this compilation will stop it
+    this.initialErrorCount = diagnostics.getErrorCount();
+  }
+
+  /**
+   * Gets the variables automatically set for every build, any information not available is left undefined
+   */
+  private getBuiltInVariables(): CompilerVariableSet {
+    const variables: CompilerVariableSet = {
+      BUILD_TARGET: this.buildTarget.name,
+      BUILD_NAME: this.build.name,
+      BUILD_TIME: new Date().toISOString(),
+      PROJECT_NAME: this.project.name,
+      COMPILER_VERSION: Application.getVersion(),
+    };
+
+    // Optional project information
+    if (this.project.description) variables.PROJECT_DESCRIPTION = this.project.description;
+    if (this.project.version) variables.PROJECT_VERSION = this.project.version;
+
+    // Git information, only when the project is in a repository
+    const commit = GitClient.getCommitHash(this.project.getProjectDirectory());
+    if (commit) {
+      variables.GIT_COMMIT = commit;
+      variables.GIT_COMMIT_SHORT = commit.substring(0, 7);
+      variables.GIT_DIRTY = !!GitClient.isDirty(this.project.getProjectDirectory());
+    }
+
+    return variables;
   }
 
   /**
@@ -214,6 +332,24 @@ export class DULuaCompiler {
     return this.currentLineOfCode[0];
   }
 
+  /**
+   * Registers files used during build time, other than the required ones
+   * @param fullpaths The full paths of the files
+   */
+  addDependency(...fullpaths: string[]) {
+    fullpaths.map((fullpath) => path.resolve(fullpath)).forEach((fullpath) => {
+      this.dependencies.push(fullpath);
+      if (this.cacheRecords[0]) this.cacheRecords[0].dependencies[fullpath] = '';
+    });
+  }
+
+  /**
+   * Gets where errors found during compilation are reported
+   */
+  getDiagnostics(): DULuaDiagnostics {
+    return this.diagnostics;
+  }
+
   /**
    * Gets the current build target
    */
@@ -224,17 +360,21 @@ export class DULuaCompiler {
   /**
    * Adjusts all variables for when we start processing a file
    * @param file The file we're starting processing
+   * @param library The library the file belongs to
+   * @param line The line where the file was required by its parent
    */
-  private sourceStartProcessing(file: string, library: Library | null) {
+  private sourceStartProcessing(file: string, library: Library | null, line: number) {
     this.currentLibraries.unshift(library);
     this.sourceDirectories.unshift(path.dirname(file));
     this.currentFiles.unshift(file);
+    this.currentRequireLines.unshift(line);
   }
 
   /**
    * Adjusts all variables for when we finish processing a file
    */
   private sourceFinishProcessing() {
+    this.currentRequireLines.shift();
     this.currentFiles.shift();
     this.sourceDirectories.shift();
     this.currentLibraries.shift();
@@ -273,10 +413,10 @@ export class DULuaCompiler {
   }
 
   /**
-   * Returns information about a required file
+   * Lists the files where a require is looked up, in order
    * @param filename The file we're requiring, in project:file syntax
    */
-  public getRequiredFileInfo(filename: string): DULuaCompilerFileInfo | null {
+  private getRequireCandidates(filename: string): string[] {
     // Parses file name
     const file = this.parseFileString(filename);
 
@@ -287,7 +427,7 @@ export class DULuaCompiler {
 
     // If no library is found, raise an error
     if (!library) {
-      CLI.panic(`Library not found for require ${ColorScheme.highlight(filename)}`);
+      throw new Error(`Library not found for require ${ColorScheme.highlight(filename)}`);
     }
 
     // This is our "project" prefix
@@ -303,9 +443,19 @@ export class DULuaCompiler {
     ];
 
     // Now, convert the internal path into a list of possible file names
-    const possibleFilePaths = internalLuaPath.map(
+    return internalLuaPath.map(
       (path) => path.replace('?', file.filename)
     );
+  }
+
+  /**
+   * Returns information about a required file
+   * @param filename The file we're requiring, in project:file syntax
+   */
+  public getRequiredFileInfo(filename: string): DULuaCompilerFileInfo | null {
+    // Parses file name and lists where it might be
+    const file = this.parseFileString(filename);
+    const possibleFilePaths = this.getRequireCandidates(filename);
 
     // Searches for a matching file
     let filepath: string | undefined;
@@ -347,79 +497,301 @@ export class DULuaCompiler {
    * @param code The code where it happened
    */
   private createParseError(err: any, code: string) {
-    // The error subject
-    const errorSubject = this.isRootFile()
-      ? 'output'
-      : ColorScheme.highlight(`file ${this.getCurrentFile()}`);
-
-    // Gets the line where the error happened
-    const errorLine = code.split('\n')[err.line - 1];
-
-    return new Error([
-      `Error parsing ${errorSubject} at line ${err.line}, column: ${err.column}, index: ${err.index}:`,
-      err.message,
-      `Problematic line:`,
-      ColorScheme.code(errorLine)
-    ].join('\n'));
+    // Not all errors come with a column, so we calculate it from the index instead
+    const column = undefined !== err.index
+      ? err.index - code.lastIndexOf('\n', err.index - 1)
+      : undefined;
+
+    return new DULuaSourceError(
+      `Syntax error: ${`${err.message}`.replace(/^\[\d+:\d+\]\s*/, '')}`,
+      err.line,
+      column,
+    );
   }
 
   /**
-   * Escapes a string for use inside a regular expression
-   * @param str The string being escaped
+   * Walks through all nodes of a syntax tree
+   * @param node The node we're starting from
+   * @param visitor The function called for each node, along with its parent and the key it's under
+   * @param parent The parent node
+   * @param key The key on the parent node
    */
-  private escapeForRegex(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  static walkSyntaxTree(node: any, visitor: (node: any, parent: any, key: string | null) => void, parent: any = null, key: string | null = null) {
+    visitor(node, parent, key);
+
+    // Goes through all child nodes
+    for (const childKey in node) {
+      const value = node[childKey];
+      if (Array.isArray(value)) {
+        value.forEach((child) => child && 'object' == typeof child && child.type && this.walkSyntaxTree(child, visitor, node, childKey));
+      } else if (value && 'object' == typeof value && value.type) {
+        this.walkSyntaxTree(value, visitor, node, childKey);
+      }
+    }
   }
 
   /**
-   * Handles processor directives in the source piece of code
-   * @param sourceCode The Lua source-code being processed
+   * Gets the value of a string literal, the parser only decodes strings restricted to a single-byte encoding, so we decode it from its raw code
+   * @param node The string literal
    */
-  private processDirectives(sourceCode: string): string {
-    const directives = [
-      // @if, @else and @end
-      {
-        regex: /---@if (\w+)\w?(.*?)\n([\S\s]*?)\n---@end/gm,
-        action: (source: string, compareVariableName: string, compareValue: string, innerCode: string): string => {
-          // We'll store our outputs here
-          const blocks = {
-            'true': innerCode,
-            'false': '',
-          }
+  static getStringLiteralValue(node: luaparse.StringLiteral): string {
+    // Long strings are kept as they are, except for the first line break
+    const longString = node.raw.match(/^\[(=*)\[\n?([\s\S]*)\]\1\]$/);
+    if (longString) return longString[2];
+
+    // Quoted strings have their escape sequences decoded
+    const escapes: SimpleMap<string> = { a: '\x07', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v', '\n': '\n' };
+    return node.raw.slice(1, -1).replace(/\\(z\s*|x[0-9a-fA-F]{2}|u\{[0-9a-fA-F]+\}|[0-9]{1,3}|[\s\S])/g, (match, escape: string) => {
+      if (escape[0] == 'z') return '';
+      if (escape[0] == 'x') return String.fromCharCode(parseInt(escape.substring(1), 16));
+      if (escape[0] == 'u') return String.fromCodePoint(parseInt(escape.slice(2, -1), 16));
+      if (/^[0-9]/.test(escape)) return String.fromCharCode(parseInt(escape, 10));
+      return escapes[escape] ?? escape;
+    });
+  }
 
-          // Checks if we have an else clause
-          if (innerCode.includes('---@else')) {
-            const parts = innerCode.split('---@else');
-            blocks['true'] = parts[0];
-            blocks['false'] = parts[1];
-          }
+  /**
+   * Finds all require calls in a syntax tree
+   * @param ast The syntax tree, parsed with ranges and locations
+   */
+  private static findRequireCalls(ast: luaparse.Chunk): DULuaCompilerRequireCall[] {
+    const calls: DULuaCompilerRequireCall[] = [];
+
+    // Checks if a node is a call to require, returning its argument
+    const getRequireArgument = (node: any): luaparse.Expression | null | undefined => {
+      if (!node || node.base?.type != 'Identifier' || node.base.name != 'require') return undefined;
+      if (node.type == 'StringCallExpression') return node.argument;
+      if (node.type == 'CallExpression') return node.arguments.length == 1 ? node.arguments[0] : null;
+      return undefined;
+    };
 
-          // If no compare value is provided, assume true
-          let parsedValue: CompilerVariable = compareValue;
-          if (compareValue.length == 0) {
-            parsedValue = true;
-          } else {
-            try {
-              parsedValue = JSON.parse(parsedValue);
-            } catch (ex) {}
-          }
+    // Walks through the entire tree looking for our calls
+    this.walkSyntaxTree(ast, (node, parent, key) => {
+      const argument = getRequireArgument(node);
+      if (undefined !== argument) {
+        calls.push({
+          start: node.range[0],
+          end: node.range[1],
+          line: node.loc.start.line,
+          file: argument?.type == 'StringLiteral' ? this.getStringLiteralValue(argument) : null,
+          isStatement: parent?.type == 'CallStatement' && key == 'expression',
+        });
+      }
+    });
 
-          // Does the actual comparison
-          if (parsedValue == this.buildVariables[compareVariableName] || null) {
-            return blocks['true'].trim();
-          }
-          return blocks['false'].trim();
+    return calls;
+  }
+
+  /**
+   * Finds all compiler variable tokens (__VAR_name__) in a syntax tree
+   * @param ast The syntax tree, parsed with ranges and locations
+   */
+  private static findVariableTokens(ast: luaparse.Chunk): DULuaCompilerVariableToken[] {
+    const tokens: DULuaCompilerVariableToken[] = [];
+
+    // Those are places where identifiers are names, not values, so they're left alone
+    const ignoredKeys: SimpleMap<string[]> = {
+      MemberExpression: ['identifier'],
+      TableKeyString: ['key'],
+      LocalStatement: ['variables'],
+      AssignmentStatement: ['variables'],
+      FunctionDeclaration: ['identifier', 'parameters'],
+      ForNumericStatement: ['variable'],
+      ForGenericStatement: ['variables'],
+      LabelStatement: ['label'],
+      GotoStatement: ['label'],
+    };
+
+    // Those are places where values need to be wrapped in parenthesis, such as ('text'):upper()
+    const prefixKeys: SimpleMap<string[]> = {
+      MemberExpression: ['base'],
+      IndexExpression: ['base'],
+      CallExpression: ['base'],
+      StringCallExpression: ['base'],
+      TableCallExpression: ['base'],
+    };
+
+    // Walks through the entire tree looking for our tokens
+    this.walkSyntaxTree(ast, (node, parent, key) => {
+      const match = node.type == 'Identifier' && /^__VAR_(\w+?)__$/.exec(node.name);
+      if (!match || (parent && key && ignoredKeys[parent.type]?.includes(key))) return;
+
+      tokens.push({
+        start: node.range[0],
+        end: node.range[1],
+        line: node.loc.start.line,
+        name: match[1],
+        isPrefix: !!(parent && key && prefixKeys[parent.type]?.includes(key)),
+      });
+    });
+
+    return tokens;
+  }
+
+  /**
+   * Finds the lines where statements start, only statements at the start of their line are included, so code can be safely added before them
+   * @param ast The syntax tree, parsed with ranges and locations
+   * @param sourceCode The code the syntax tree was parsed from
+   */
+  private static findStatementLines(ast: luaparse.Chunk, sourceCode: string): number[] {
+    const lines = sourceCode.split('\n');
+    const statementLines = new Set<number>();
+
+    // Statements are anything inside a block's body
+    this.walkSyntaxTree(ast, (node, parent, key) => {
+      if (!parent || key != 'body' || !Array.isArray(parent.body)) return;
+
+      const line = node.loc.start.line;
+      if (lines[line - 1].substring(0, node.loc.start.column).trim().length == 0) {
+        statementLines.add(line);
+      }
+    });
+
+    return [...statementLines];
+  }
+
+  /**
+   * Converts a compiler variable value into a Lua literal
+   * @param value The value being converted
+   */
+  static toLuaLiteral(value: CompilerVariable | null): string {
+    // Strings are escaped, so they always fit in a single line
+    if ('string' == typeof value) {
+      return `"${value.replace(/[\\"\x00-\x1f\x7f]/g, (char) => {
+        switch (char) {
+          case '\\': return '\\\\';
+          case '"': return '\\"';
+          case '\n': return '\\n';
+          case '\r': return '\\r';
+          case '\t': return '\\t';
+          default: return `\\${char.charCodeAt(0).toString().padStart(3, '0')}`;
         }
-      },
-    ];
+      })}"`;
+    }
 
-    // Processes each of the directives
-    for (const directive of directives) {
-      sourceCode = sourceCode.replace(directive.regex, directive.action);
+    // Numbers
+    if ('number' == typeof value) {
+      if (!Number.isFinite(value)) {
+        throw new Error(`Invalid numeric value: ${value}`);
+      }
+      // Negative numbers are wrapped, so they don't turn into comments when after a minus sign
+      return value < 0 ? `(${value})` : value.toString();
     }
 
-    // Done
-    return sourceCode;
+    // Booleans and nil
+    if ('boolean' == typeof value) return value ? 'true' : 'false';
+    if (null === value || undefined === value) return 'nil';
+
+    // Arrays become sequential tables
+    if (Array.isArray(value)) {
+      return `{${value.map((entry) => this.toLuaLiteral(entry)).join(',')}}`;
+    }
+
+    // Objects become tables, keys are only used directly when they're valid names
+    return `{${Object.entries(value).map(([key, entry]) => {
+      const isName = /^[A-Za-z_]\w*$/.test(key) && !DULuaCompiler.luaKeywords.includes(key);
+      return `${isName ? key : `[${this.toLuaLiteral(key)}]`}=${this.toLuaLiteral(entry)}`;
+    }).join(',')}}`;
+  }
+
+  /**
+   * Lua's reserved keywords, which can't be used as names
+   */
+  private static readonly luaKeywords = [
+    'and', 'break', 'do', 'else', 'elseif', 'end', 'false', 'for', 'function', 'goto', 'if', 'in',
+    'local', 'nil', 'not', 'or', 'repeat', 'return', 'then', 'true', 'until', 'while',
+  ];
+
+  /**
+   * Handles the parts of a piece of code that need its syntax tree: require statements and compiler variable tokens
+   * @param sourceCode The Lua source-code being processed
+   * @param ast The syntax tree for the source-code
+   */
+  private async processSyntaxTree(sourceCode: string, ast: luaparse.Chunk): Promise<string> {
+    const replacements: { start: number, end: number, code: string }[] = [];
+
+    // Replaces compiler variable tokens with their values
+    for (const token of DULuaCompiler.findVariableTokens(ast)) {
+      this.recordVariable(token.name);
+      if (undefined === this.buildVariables[token.name]) {
+        this.diagnostics.error([
+          `Undefined compiler variable ${ColorScheme.highlight(token.name)}`,
+          `Make sure it's set on your build target or passed via ${ColorScheme.highlight(`--var:${token.name}`)}`,
+        ].join('\n'), { file: this.getCurrentFile(), line: token.line });
+        continue;
+      }
+
+      const literal = DULuaCompiler.toLuaLiteral(this.buildVariables[token.name]);
+      replacements.push({
+        start: token.start,
+        end: token.end,
+        code: token.isPrefix ? `(${literal})` : literal,
+      });
+    }
+
+    // Handles require statements, those must be processed in the order they appear in code
+    this.currentLineOfCode.unshift(0);
+    for (const call of DULuaCompiler.findRequireCalls(ast).sort((a, b) => a.start - b.start)) {
+      // Updates current line of code, in case something needs it
+      this.currentLineOfCode[0] = call.line;
+
+      // Dynamic requires can't be resolved during build
+      if (!call.file) {
+        this.warn(`Dynamic require at file ${ColorScheme.highlight(this.getCurrentFile())}, line ${call.line} can't be resolved by the compiler, leaving statement alone...`, call.line);
+        continue;
+      }
+
+      // Does the actual require on compiler-side, will return null if nothing is found
+      let requireResult: DULuaCompilerRequire | null;
+      try {
+        requireResult = await this.requireFile(call.file, call.line);
+      } catch (err) {
+        this.diagnostics.addException(err, { file: this.getCurrentFile(), line: call.line });
+        continue;
+      }
+      this.recordRequireEdge(call.file, requireResult);
+      this.cacheRecords[0]?.requires.push({
+        file: call.file,
+        line: call.line,
+        fullNameWithProject: requireResult?.fullNameWithProject || null,
+      });
+
+      // Handles invalid required file, will leave statement as-is
+      if (!requireResult) {
+        continue;
+      }
+
+      // Handles inlined requires, when used as statements they aren't needed anymore, otherwise returns our modified require
+      let replacement = `require('${requireResult.fullNameWithProject}')`;
+      if (!this.build.options.preload) {
+        replacement = call.isStatement
+          ? ''
+          : `${DULuaCompiler.globalInlineRequire}['${requireResult.fullNameWithProject}']`;
+      }
+
+      // Requires split across lines have their lines kept, so line numbers stay intact
+      const original = sourceCode.substring(call.start, call.end);
+      replacement += '\n'.repeat(original.split('\n').length - 1);
+
+      replacements.push({
+        start: call.start,
+        end: call.end,
+        code: replacement,
+      });
+    }
+    this.currentLineOfCode.shift();
+
+    // Applies all replacements
+    const output: string[] = [];
+    let lastIndex = 0;
+    for (const replacement of replacements.sort((a, b) => a.start - b.start)) {
+      output.push(sourceCode.substring(lastIndex, replacement.start), replacement.code);
+      lastIndex = replacement.end;
+    }
+
+    // Copies anything left
+    output.push(sourceCode.substring(lastIndex));
+    return output.join('');
   }
 
   /**
@@ -431,62 +803,31 @@ export class DULuaCompiler {
     sourceCode = sourceCode.replace(/\r\n/g, '\n');
 
     // Handles processor directives
-    sourceCode = this.processDirectives(sourceCode);
+    const preprocessed = DULuaPreprocessor.process(sourceCode, this.buildVariables);
+    preprocessed.variables.forEach((variable) => this.recordVariable(variable));
+    sourceCode = preprocessed.code;
 
     // Validates source AST
+    let ast: luaparse.Chunk;
     try {
-      luaparse.parse(sourceCode);
+      ast = luaparse.parse(sourceCode, { locations: true, ranges: true, luaVersion: '5.3' });
     } catch (err) {
       throw this.createParseError(err, sourceCode);
     }
 
-    // Clean-up source-code
-    const cleanSource = sourceCode
-      .replace(/\r/g, '');
+    // Finds which lines are instrumented for coverage, line numbers are kept intact while processing the syntax tree
+    const coverageLines = new Set<number>();
+    let coverageId = -1;
+    if (this.coverage && this.coverage.shouldInstrument(this.getCurrentFile())) {
+      DULuaCompiler.findStatementLines(ast, sourceCode).forEach((line) => coverageLines.add(line));
+      coverageId = this.coverage.addFile(this.getCurrentFile(), [...coverageLines]);
+    }
+
+    // Handles require statements and compiler variable tokens
+    sourceCode = await this.processSyntaxTree(sourceCode, ast);
 
     // Prepares our regexes
     const compilerRegexes: SimpleMap<DULuaCompilerRegex> = {
-      // Require statements
-      require: {
-        expression: /(?<!--)require\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
-        handler: async (fullMatch: string, file: string): Promise<string> => {
-          // Let's create a temporary version of the source-code without that require inside strings and comments
-          const empty = () => '';
-          const newRequire = `require([[${file}]])`;
-          const newEscapedRequire = this.escapeForRegex(newRequire);
-          const escapedRequire = this.escapeForRegex(fullMatch);
-          const tempSource = cleanSource
-            .replace(escapedRequire, newRequire)
-            .replace(new RegExp(`\\[{2}(.|\\n)*?\\]{2}`, 'g'), empty) // Multi-line string literals and comments: [[ something here ]]
-            .replace(new RegExp(`-{2}.*`, 'g'), empty) // Single-line comments: -- something here
-            .replace(new RegExp(`\\'.*?${newEscapedRequire}.*?\\'`, 'g'), empty) // Single-quote strings: 'something here'
-            .replace(new RegExp(`\\".*?${newEscapedRequire}.*?\\"`, 'g'), empty); // Double-quote strings: "something here"
-
-          // Now, check if that require still exists, and if it doesn't, returns the original source code
-          if (
-            !(new RegExp(escapedRequire).test(tempSource))
-          ) {
-            return fullMatch;
-          }
-
-          // Does the actual require on compiler-side, will return null if nothing is found
-          const requireResult = await this.requireFile(file);
-
-          // Handles invalid required file, will leave statement as-is
-          if (!requireResult) {
-            return fullMatch;
-          }
-
-          // Handles inlined requires
-          if (!this.build.options.preload) {
-            return `${DULuaCompiler.globalInlineRequire}['${requireResult.fullNameWithProject}']`;
-          }
-
-          // Returns our modified require
-          return `require('${requireResult.fullNameWithProject}')`;
-        },
-      },
-
       // Undefined behavior when a period character is right before a line break after a number
       undefinedBehaviorPeriodNewlineNumeric: {
         expression: /([0-9])\?\n/g,
@@ -509,19 +850,20 @@ export class DULuaCompiler {
       // Updates current line of code, in case something needs it
       this.currentLineOfCode[0] = parseInt(idx) + 1;
 
-      // Handles --export statements
-      if (DULuaCompilerExport.codeHasExportStatement(line)) {
-        line = DULuaCompilerExport.encodeExportStatement(line);
+      // Runs our regexes, any errors (such as failed embeds) are reported and the line is left as-is
+      try {
+        let processedLine = line;
+        for (const regex of Object.values(compilerRegexes)) {
+          processedLine = await Utils.replaceAsync(processedLine, regex.expression, regex.handler);
+        }
+        line = processedLine;
+      } catch (err) {
+        this.diagnostics.addException(err, { file: this.getCurrentFile(), line: parseInt(idx) + 1 });
       }
 
-      // Runs our regexes
-      for (const regex of Object.values(compilerRegexes)) {
-        line = await Utils.replaceAsync(line, regex.expression, regex.handler);
-      }
-      
-      // If we're in renderscript and this is an empty require, we don't need it anymore
-      if (!this.build.options.preload && line.match(new RegExp(`^\\s*${DULuaCompiler.globalInlineRequire}\\['.*?'\\]\\s*$`))) {
-        return '';
+      // Reports the line as run before running its statement
+      if (coverageLines.has(parseInt(idx) + 1)) {
+        line = `${DULuaCoverage.functionName}(${coverageId}, ${parseInt(idx) + 1}); ${line}`;
       }
 
       // Updates processed line of code
@@ -532,19 +874,208 @@ export class DULuaCompiler {
     return lines.join('\n');
   }
 
+  /**
+   * Prints a warning about the file being processed, also reporting it as a diagnostic and keeping it in cache
+   * @param message The warning message
+   * @param line The line where it happened
+   */
+  private warn(message: string, line?: number) {
+    CLI.warn(message);
+    this.diagnostics.warning(message, { file: this.getCurrentFile(), line });
+    this.cacheRecords[0]?.warnings.push({ message, line });
+  }
+
+  /**
+   * Records a require made by the file being processed
+   * @param file The original require string
+   * @param requireResult The required file, or null if not found
+   */
+  private recordRequireEdge(file: string, requireResult: DULuaCompilerRequire | null) {
+    const edge: DULuaCompilerRequireEdge = {
+      from: this.getCurrentFile(),
+      to: requireResult?.fullNameWithProject || file,
+      resolved: !!requireResult,
+    };
+
+    // Prevents duplicate entries
+    if (!this.requireEdges.some((existing) => existing.from == edge.from && existing.to == edge.to)) {
+      this.requireEdges.push(edge);
+    }
+  }
+
+  /**
+   * Records a variable used by the file being processed, so its value is part of the cache key
+   * @param name The variable name
+   */
+  private recordVariable(name: string) {
+    if (this.cacheRecords[0]) {
+      this.cacheRecords[0].variables[name] = this.buildVariables[name] ?? null;
+    }
+  }
+
+  /**
+   * Gets anything other than the file contents and variables that affects how a file is processed
+   */
+  private getCacheContext(): DULuaCompilerCacheContext {
+    return {
+      preload: this.build.options.preload,
+      minify: this.buildTarget.minify || false,
+    };
+  }
+
+  /**
+   * Creates an empty cache record, used to keep track of what a file used while being processed
+   */
+  private createCacheRecord(): DULuaCompilerCacheEntry {
+    return {
+      variables: {},
+      requires: [],
+      dependencies: {},
+      warnings: [],
+      output: '',
+    };
+  }
+
+  /**
+   * Processes a file, loading it from cache when possible
+   * @param fullpath The full path of the file
+   * @param sourceCode The file contents
+   */
+  private async processFile(fullpath: string, sourceCode: string): Promise<string> {
+    // Tries loading it from cache first, its requires must still resolve to the same files
+    const context = this.getCacheContext();
+    const cached = this.cache?.get(fullpath, sourceCode, context, this.buildVariables);
+    if (cached) {
+      CLI.status(this.CLITag, `Using cached file: ${fullpath}`);
+
+      // Any warnings from the requires themselves are reported again while requiring, so we keep track of them
+      const restoreRecord = this.createCacheRecord();
+      this.cacheRecords.unshift(restoreRecord);
+      let isValid = true;
+      try {
+        for (const require of cached.requires) {
+          const requireResult = await this.requireFile(require.file, require.line);
+          this.recordRequireEdge(require.file, requireResult);
+          if ((requireResult?.fullNameWithProject || null) != require.fullNameWithProject) {
+            isValid = false;
+            break;
+          }
+        }
+      } catch (err) {
+        // Processing the file again will report the error properly
+        isValid = false;
+      } finally {
+        this.cacheRecords.shift();
+      }
+
+      if (isValid) {
+        // Any other warnings are reported again, as they still apply
+        cached.warnings
+          .filter((warning) => !restoreRecord.warnings.some((existing) => existing.message == warning.message && existing.line == warning.line))
+          .forEach((warning) => {
+            CLI.warn(warning.message);
+            this.diagnostics.warning(warning.message, { file: fullpath, line: warning.line });
+          });
+
+        this.dependencies.push(...Object.keys(cached.dependencies));
+        return cached.output;
+      }
+    }
+
+    // Processes the file, keeping track of anything it used
+    CLI.status(this.CLITag, `Compiling file: ${fullpath}`);
+    const errorCount = this.diagnostics.getErrorCount();
+    const record = this.createCacheRecord();
+    this.cacheRecords.unshift(record);
+    try {
+      record.output = await this.processSourceCode(sourceCode);
+    } catch (err) {
+      // Errors are reported so we can keep processing any other files
+      this.diagnostics.addException(err, { file: fullpath });
+    } finally {
+      this.cacheRecords.shift();
+    }
+
+    // Files with errors are never cached
+    if (this.diagnostics.getErrorCount() > errorCount) {
+      return record.output;
+    }
+
+    // Saves it into cache
+    if (this.cache) {
+      for (const dependency in record.dependencies) {
+        record.dependencies[dependency] = DULuaCompilerCache.hash(fs.readFileSync(dependency));
+      }
+      this.cache.set(fullpath, sourceCode, context, record);
+    }
+
+    return record.output;
+  }
+
+  /**
+   * Gets a file path suitable for messages, relative to the project when possible
+   * @param fullpath The full path of the file
+   */
+  private getDisplayPath(fullpath: string): string {
+    return this.project.containsPath(fullpath)
+      ? path.relative(this.project.getProjectDirectory(), fullpath).replace(/\\/g, '/')
+      : fullpath;
+  }
+
+  /**
+   * Handles a file being required while it's still being processed (a circular require)
+   * @param fullpath The full path of the file being required
+   * @param line The line of the require on the current file
+   * @returns Whether the circular require is allowed
+   */
+  private handleCircularRequire(fullpath: string, line: number): boolean {
+    // Lists the whole cycle, along with the line of each require
+    const cycleStart = this.currentFiles.indexOf(fullpath);
+    const chain = this.currentFiles.slice(0, cycleStart + 1)
+      .map((file, idx) => `${this.getDisplayPath(file)}:${idx == 0 ? line : this.currentRequireLines[idx - 1]}`)
+      .reverse();
+    chain.push(this.getDisplayPath(fullpath));
+
+    // Cycles can only be allowed when using package.preload, and can't include the main file, which isn't a preload
+    const isRootIncluded = cycleStart == this.currentFiles.length - 1;
+    if (this.build.options.preload && this.build.options.allowCircularRequires && !isRootIncluded) {
+      this.warn([
+        `Circular require: ${ColorScheme.highlight(chain.join(' -> '))}`,
+        `Make sure at least one of those requires only happens when needed (inside a function), otherwise it will fail at runtime`,
+      ].join('\n'), line);
+      return true;
+    }
+
+    // Otherwise, fails with the whole chain
+    const hint = !this.build.options.preload
+      ? `Circular requires are only supported by builds using ${ColorScheme.code('package.preload')}`
+      : isRootIncluded
+        ? `Circular requires can't include the main file of a build`
+        : `To allow circular requires, set ${ColorScheme.code('"allowCircularRequires": true')} on build ${ColorScheme.highlight(this.build.name)}`;
+    throw new Error([
+      `Files required in a loop at ${ColorScheme.highlight(this.getCurrentFile())}:`,
+      chain.join(' -> '),
+      hint,
+    ].join('\n'));
+  }
+
   /**
    * Requires and processes a file
    * @param filename The file being required, in project:file syntax
+   * @param line The line of the require on the current file
    */
-  private async requireFile(filename: string): Promise<DULuaCompilerRequire | null> {
+  private async requireFile(filename: string, line: number = 0): Promise<DULuaCompilerRequire | null> {
     // Gets entrypoint file
     const requiredInfo = this.getRequiredFileInfo(filename);
 
-    // Handles a require not being found
+    // Handles a require not being found, the files where it was looked up are kept, so we know when it becomes available
     if (!requiredInfo) {
+      this.missingFiles.push(...this.getRequireCandidates(filename).map((filepath) => path.resolve(filepath)));
+
       // On root file, stops
       if (this.isRootFile()) {
-        CLI.panic(`Project file missing: ${ColorScheme.highlight(filename)}`)
+        this.diagnostics.error(`Project file missing: ${ColorScheme.highlight(filename)}`);
+        return null;
       }
 
       // Checks if we're dealing with any internal library
@@ -553,18 +1084,13 @@ export class DULuaCompiler {
         CLI.status(this.CLITag, `Required a game library ${ColorScheme.highlight(filename)} at file ${ColorScheme.highlight(this.getCurrentFile())}`);
       } else {
         // Raise a warning
-        CLI.warn(`Required library ${ColorScheme.highlight(filename)} at file ${ColorScheme.highlight(this.getCurrentFile())} was not found anywhere, leaving statement alone...`);
+        this.warn(`Required library ${ColorScheme.highlight(filename)} at file ${ColorScheme.highlight(this.getCurrentFile())} was not found anywhere, leaving statement alone...`, line);
       }
 
       // Skips current require
       return null;
     }
 
-    // Detects a loop and stops
-    if (this.currentFiles.includes(requiredInfo.fullpath)) {
-      throw new Error(`Files required in a loop at ${ColorScheme.highlight(this.getCurrentFile())}`);
-    }
-
     // Creates the full name for our require
     let requireFullName = `${requiredInfo.requireInfo.project || '::extern'}:${requiredInfo.requireInfo.filename}`;
 
@@ -586,6 +1112,15 @@ export class DULuaCompiler {
       requireFullName = newRequireFullName;
     }
 
+    // Detects a loop, when allowed, the file will be available via package.preload once its processing finishes
+    if (this.currentFiles.includes(requiredInfo.fullpath) && this.handleCircularRequire(requiredInfo.fullpath, line)) {
+      return {
+        fullNameWithProject: requireFullName,
+        fullpath: requiredInfo.fullpath,
+        sourceCode: '',
+      };
+    }
+
     // Prevents processing the file multiple times
     const existingRequire = this.requiredFiles.filter((entry) => entry.fullNameWithProject == requireFullName);
     if (existingRequire.length > 0) {
@@ -596,19 +1131,20 @@ export class DULuaCompiler {
     const sourceCode = fs.readFileSync(requiredInfo.fullpath).toString();
 
     // Processes our source code for that require
-    CLI.status(this.CLITag, `Compiling file: ${requiredInfo.fullpath}`);
     this.sourceStartProcessing(
       requiredInfo.fullpath,
       requiredInfo.requireInfo.project
         ? this.loadedLibraries[requiredInfo.requireInfo.project]
-        : null
+        : null,
+      line,
     );
-    const processedSource = await this.processSourceCode(sourceCode);
+    const processedSource = await this.processFile(requiredInfo.fullpath, sourceCode);
     this.sourceFinishProcessing();
 
     // Creates our entry
     const requireEntry: DULuaCompilerRequire = {
       fullNameWithProject: requireFullName,
+      fullpath: requiredInfo.fullpath,
       sourceCode: processedSource,
     };
 
@@ -631,6 +1167,9 @@ export class DULuaCompiler {
     // Loads our main file via a virtual "require" statement
     const outputLua = await this.requireFile(requireName || `${this.project.name}:${this.build.name}`);
 
+    // Stops if any errors were found, after all files were processed
+    this.diagnostics.throwIfErrors(this.project, this.initialErrorCount);
+
     // Handles compiler fail
     if (!outputLua) {
       CLI.panic(`Build ${ColorScheme.highlight(this.build.name)} failed with no error!`);
@@ -645,12 +1184,33 @@ export class DULuaCompiler {
       })
     );
 
+    // Lists where each of the source files are located
+    const sources: SimpleMap<string> = {};
+    [outputLua!, ...this.requiredFiles].forEach((file) => {
+      sources[file.fullNameWithProject] = file.fullpath;
+    });
+
+    // Converts the requiring files into their full names
+    const fullNames: SimpleMap<string> = {};
+    for (const fullName in sources) {
+      fullNames[sources[fullName]] = fullName;
+    }
+    const requires = this.requireEdges.map((edge) => ({
+      ...edge,
+      from: fullNames[edge.from] || edge.from,
+    }));
+
     // Done
     return {
       project: this.project,
       build: this.build,
+      entrypoint: outputLua!.fullNameWithProject,
       output: outputLua!.sourceCode,
       preloads: outputPreloads,
+      sources,
+      dependencies: [...new Set([...Object.values(sources), ...this.dependencies])],
+      missingFiles: [...new Set(this.missingFiles)],
+      requires,
     };
   }
 
@@ -658,17 +1218,23 @@ export class DULuaCompiler {
    * Starts a compilation
    * @param project The project hosting our file
    * @param build The file being compiled
+   * @param buildTarget The build target being used
+   * @param variables Any extra compiler variables
+   * @param useCache Whether processed files should be cached
+   * @param diagnostics Where any errors found are reported, when not provided, errors are only included in the thrown error
+   * @param coverage When set, the project's sources are instrumented to report their line coverage to it
    */
-  static async compile(project: Project, build: Build, buildTarget: BuildTarget, variables: CompilerVariableSet = {}) {
-    return await (new this(project, build, buildTarget, variables)).startBuild();
+  static async compile(project: Project, build: Build, buildTarget: BuildTarget, variables: CompilerVariableSet = {}, useCache: boolean = true, diagnostics?: DULuaDiagnostics, coverage?: DULuaCoverage) {
+    return await (new this(project, build, buildTarget, variables, useCache, diagnostics, coverage)).startBuild();
   }
 
   /**
    * Starts a compilation of an required file
    * @param project The project hosting our file
    * @param build The file being compiled
+   * @param diagnostics Where any errors found are reported
    */
-  static async compileRequire(project: Project, build: Build, requireName: string, buildTarget: BuildTarget, variables: CompilerVariableSet = {}) {
-    return await (new this(project, build, buildTarget, variables)).startBuild(requireName);
+  static async compileRequire(project: Project, build: Build, requireName: string, buildTarget: BuildTarget, variables: CompilerVariableSet = {}, diagnostics?: DULuaDiagnostics) {
+    return await (new this(project, build, buildTarget, variables, true, diagnostics)).startBuild(requireName);
   }
 }
\ No newline at end of file
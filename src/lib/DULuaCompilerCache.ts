@@ -0,0 +1,155 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import Application from "../Application";
+import { CompilerVariable, CompilerVariableSet } from "../types/CompilerVariable";
+import Project from "../types/Project";
+import { SimpleMap } from "../types/SimpleMap";
+
+/**
+ * Represents a require found while processing a file, along with what it resolved to
+ */
+export type DULuaCompilerCacheRequire = {
+  file: string,
+  line: number,
+  fullNameWithProject: string | null,
+};
+
+/**
+ * Represents a warning found while processing a file, reported again when the file is loaded from cache
+ */
+export type DULuaCompilerCacheWarning = {
+  message: string,
+  line?: number,
+};
+
+/**
+ * Represents the processed version of a file
+ */
+export type DULuaCompilerCacheEntry = {
+  variables: SimpleMap<CompilerVariable | null>,
+  requires: DULuaCompilerCacheRequire[],
+  dependencies: SimpleMap<string>,
+  warnings: DULuaCompilerCacheWarning[],
+  output: string,
+};
+
+/**
+ * Represents anything other than the file contents which affects how it's processed
+ */
+export type DULuaCompilerCacheContext = SimpleMap<CompilerVariable | null>;
+
+/**
+ * A persistent cache of processed files, stored in the project's temp directory
+ */
+export class DULuaCompilerCache {
+  /**
+   * The current cache format, changing it invalidates all existing entries
+   */
+  private static readonly format = 4;
+
+  /**
+   * How many variants (for different variable values) we keep per file
+   */
+  private static readonly maxVariants = 10;
+
+  /**
+   * Creates a new cache for a project
+   * @param project The project where the cache is stored
+   */
+  constructor(private project: Project) {}
+
+  /**
+   * Gets the directory where the cache is stored
+   */
+  getCacheDirectory(): string {
+    return path.join(this.project.getTempDirectory(), 'cache');
+  }
+
+  /**
+   * Hashes a piece of data
+   * @param data The data being hashed
+   */
+  static hash(data: string | Buffer): string {
+    return crypto.createHash('sha1').update(data).digest('hex');
+  }
+
+  /**
+   * Gets the cache file for a certain file
+   * @param fullpath The full path of the file being processed
+   * @param sourceCode The file contents
+   * @param context Any other information affecting the processing
+   */
+  private getCacheFile(fullpath: string, sourceCode: string, context: DULuaCompilerCacheContext): string {
+    const key = DULuaCompilerCache.hash(JSON.stringify({
+      format: DULuaCompilerCache.format,
+      version: Application.getVersion(),
+      fullpath,
+      source: DULuaCompilerCache.hash(sourceCode),
+      context,
+    }));
+
+    return path.join(this.getCacheDirectory(), `${key}.json`);
+  }
+
+  /**
+   * Reads all the variants stored on a cache file
+   * @param cacheFile The cache file
+   */
+  private readVariants(cacheFile: string): DULuaCompilerCacheEntry[] {
+    try {
+      return fs.existsSync(cacheFile)
+        ? JSON.parse(fs.readFileSync(cacheFile).toString())
+        : [];
+    } catch (err) {
+      // Broken cache files are simply ignored
+      return [];
+    }
+  }
+
+  /**
+   * Gets the processed version of a file, if it's still valid
+   * @param fullpath The full path of the file being processed
+   * @param sourceCode The file contents
+   * @param context Any other information affecting the processing
+   * @param variables The current compiler variables
+   */
+  get(fullpath: string, sourceCode: string, context: DULuaCompilerCacheContext, variables: CompilerVariableSet): DULuaCompilerCacheEntry | null {
+    const variants = this.readVariants(this.getCacheFile(fullpath, sourceCode, context));
+
+    // Finds a variant where all referenced variables have the same values and all dependencies are unchanged
+    return variants.find((entry) => {
+      for (const variable in entry.variables) {
+        if (JSON.stringify(entry.variables[variable]) != JSON.stringify(variables[variable] ?? null)) return false;
+      }
+      for (const dependency in entry.dependencies) {
+        if (!fs.existsSync(dependency) || DULuaCompilerCache.hash(fs.readFileSync(dependency)) != entry.dependencies[dependency]) return false;
+      }
+      return true;
+    }) || null;
+  }
+
+  /**
+   * Stores the processed version of a file
+   * @param fullpath The full path of the file being processed
+   * @param sourceCode The file contents
+   * @param context Any other information affecting the processing
+   * @param entry The processed file
+   */
+  set(fullpath: string, sourceCode: string, context: DULuaCompilerCacheContext, entry: DULuaCompilerCacheEntry) {
+    const cacheFile = this.getCacheFile(fullpath, sourceCode, context);
+
+    // Replaces any variant with the same variables, keeping the most recent ones first
+    const variants = this.readVariants(cacheFile)
+      .filter((variant) => JSON.stringify(variant.variables) != JSON.stringify(entry.variables));
+    variants.unshift(entry);
+
+    // Saves our file, the cache is optional so any errors are ignored
+    try {
+      fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+      fs.writeFileSync(cacheFile, JSON.stringify(variants.slice(0, DULuaCompilerCache.maxVariants)));
+    } catch (err) {
+      // Nothing necessary
+    }
+  }
+}
\ No newline at end of file
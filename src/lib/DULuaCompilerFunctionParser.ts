@@ -97,7 +97,7 @@ export class DULuaCompilerFunctionParser {
               // Tries to parse this value
               return this.parseLuaValue(arg);
             } catch (err) {
-              CLI.panic(`Invalid argument ${ColorScheme.highlight(arg)} for function ${ColorScheme.highlight(fn.name)}`);
+              throw new Error(`Invalid argument ${ColorScheme.highlight(arg)} for function ${ColorScheme.highlight(fn.name)}`);
             }
           });
 
@@ -1,8 +1,27 @@
 import { CLI } from "./CLI";
 import { DULuaCompilerExport } from "./DULuaCompilerExport"
+import { DULuaMappedCode } from "./DULuaMappedCode";
 
 /**
- * This class is an almost direct port from the old compression code, it should work, but I don't recall exactly how
+ * Options for compressing code
+ */
+export type DULuaCompressorOptions = {
+  // How many bytes are added to the output along with the compressed code (like the decompression helper)
+  overhead?: number,
+
+  // Skips printing the results, used when only measuring sizes
+  quiet?: boolean,
+};
+
+/**
+ * Compresses Lua code with LZ77, the code is then expanded in-game by the decompression helper (lua/Decompression.lua)
+ *
+ * The compressed data is a sequence of literal bytes and back-references, both kept inside a Lua long string:
+ * - "@@" is a literal "@", "@!" is a literal carriage return (those would be changed by Lua when reading long strings)
+ * - "@" followed by three digits is a back-reference, the first two being the distance and the last one the length
+ * - Anything else is a literal byte
+ *
+ * Digits are the printable characters from "#" to "~", except "@", and back-references can overlap with the bytes being copied
  */
 export class DULuaCompressor {
   /**
@@ -10,33 +29,48 @@ export class DULuaCompressor {
    */
   private static CLITag = 'REDUCER';
 
+  /**
+   * Characters used as digits on back-references
+   */
+  private static readonly digits = Array.from({ length: 92 }, (_, idx) => String.fromCharCode(35 + idx)).filter((char) => char != '@').join('');
+
+  /**
+   * The farthest a back-reference can point to
+   */
+  private static readonly maxDistance = DULuaCompressor.digits.length * DULuaCompressor.digits.length;
+
+  /**
+   * The shortest back-reference, anything shorter takes more space than the bytes themselves
+   */
+  private static readonly minLength = 5;
+
+  /**
+   * The longest back-reference
+   */
+  private static readonly maxLength = DULuaCompressor.minLength + DULuaCompressor.digits.length - 1;
+
+  /**
+   * How many previous positions we check when looking for matches
+   */
+  private static readonly maxCandidates = 64;
+
   /**
    * Compresses a piece of Lua code
    * @param source The code being compressed
    * @param helperCompressed The Lua template for compressed files
+   * @param options The compression options
    */
-  static compress(source: string, helperCompressed: string): string {
-    // Decodes all --export entries
-    const initialLua = DULuaCompilerExport.decodeAllExportStatements(source, true);
-
-    // Extracts any exports
-    const params: {
-      encoded: string,
-      decoded: string,
-    }[] = [];
+  static compress(source: string, helperCompressed: string, options: DULuaCompressorOptions = {}): string {
+    const initialLua = source;
+
+    // Extracts any exports, they're kept as they are at the top of the compressed code, everything else is kept as-is
+    const params: string[] = [];
     source = initialLua
       .split('\n')
-      .filter((line) => line.length > 0)
-      .filter((line, idx) => {
+      .filter((line) => {
         if (DULuaCompilerExport.codeHasExportStatement(line)) {
-          // Parses our export
-          const exportStatement = DULuaCompilerExport.parseExportStatement(line);
-
           // Adds export to list of parameters
-          params.push({
-            encoded: DULuaCompilerExport.encodeExportStatement(line),
-            decoded: line,
-          });
+          params.push(line);
 
           // Excludes line
           return false;
@@ -47,135 +81,149 @@ export class DULuaCompressor {
       })
       .join('\n');
 
-    // Escapes any existing "@", "%", "[[", "]]" on the body
-    source = source
-      .replace(/\@/g, '@@')
-      .replace(/\%/g, '%%')
-      .replace(/\[\[/g, '[@[')
-      .replace(/\]\]/g, ']@]');
-
-    // Raw statements
-    const rawStatements = source
-      // New lines, tabs, etc
-      .replace(/[\n\r\t]/g, ' ')
-
-      // Functions, arrays, etc
-      .replace(/([\(\)\[\]])/g, ' $1 ')
-
-      // Actual split
-      .split(' ');
-
-    // Combines strings
-    const statements: string[] = [];
-    const regexString = /(?<!\\)[\'\"]/g;
-    let accumulator = null
-    for (let iStatement = 0; iStatement < rawStatements.length; iStatement++) {
-      const statement = rawStatements[iStatement];
-      const stringOpenersAndClosers = (regexString.exec(statement) || []).length;
-
-      // Handles accumulator
-      if (accumulator) {
-        accumulator += ' ' + statement;
-      }
-
-      // Handles opening and closing of strings, so we combine them
-      if (stringOpenersAndClosers % 2 == 1) {
-        if (accumulator) {
-          // Resets accumulator, if it exists
-          statements.push(accumulator);
-          accumulator = null;
-        } else {
-          // Starts accumulator
-          accumulator = statement;
-        }
-      }
-
-      // If no accumulator is open, add the current string
-      else if (!accumulator) {
-        statements.push(statement);
-      }
-    }
-
-    // Adds last statement, if any
-    if (accumulator) {
-      statements.push(accumulator);
-    }
+    // Compresses our code and picks a long bracket that won't be closed early by the data
+    const data = this.encode(source);
+    let level = 0;
+    while (`${data}]${'='.repeat(level)}]`.indexOf(`]${'='.repeat(level)}]`) < data.length) level++;
+    const dataString = `[${'='.repeat(level)}[\n${data}]${'='.repeat(level)}]`;
 
-    // Gets most used statements
-    const statementCounts = statements
-      .map((statement) => statement.trim())
-      .reduce((all: any, statement) => {
-        all[statement] = (all[statement] || 0) + 1;
-        return all;
-      }, {});
-
-    // Sorts values that might be most efficiently compressed, based on their length and how many times they repeat
-    const mostUsedStatements = Object.keys(statementCounts).sort((a, b) => {
-      if (a.length * statementCounts[a] > b.length * statementCounts[b]) return 1
-      if (b.length * statementCounts[b] > a.length * statementCounts[a]) return -1
-      return 0
-    }).reverse();
-
-    // Converts to index
-    const indexable = [
-      0, 1, 2, 3, 4, 5, 6, 7, 8, 9,
-      'A', 'B', 'C', 'D', 'E', 'F',
-      // 'A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'K', 'L', 'M', 'N', 'O', 'P', 'Q', 'R', 'S', 'T', 'U', 'V', 'W', 'X', 'Y', 'Z',
-      // 'a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'm', 'n', 'o', 'p', 'q', 'r', 's', 't', 'u', 'v', 'w', 'x', 'y', 'z',
-    ];
-    const maxIndexables = 2
-    const maxIndexableValue = Math.pow(indexable.length, maxIndexables)
-    const convertToIndex = function (value: number) {
-      let right = value % indexable.length;
-      let left = (value - (value % indexable.length)) / indexable.length;
-      return `${indexable[left]}${indexable[right]}`;
+    // Makes sure the code expands back to the same thing, otherwise we can't use the compressed version
+    if (this.decode(data) != source) {
+      if (!options.quiet) CLI.warn(`Compressed code doesn't expand back to the original code, maintaining original code...`);
+      return initialLua;
     }
 
-    // Selects only meaningful statements
-    const bestStatements = mostUsedStatements
-      .filter((statement) => statementCounts[statement] > 1)
-      .filter((statement) => statement.length > maxIndexables + 1)
-      .slice(0, maxIndexableValue)
-      .map((statement, idx) => [statement, convertToIndex(idx)]);
-
-    // Gets size before compression
-    const sourceSize = Buffer.byteLength(source, 'utf8');
-
-    // Replaces the statements
-    bestStatements.forEach((statement) => {
-      // Prepares safe regex
-      const escapedStatement = statement[0].replace(/[.*+\-?^${}()|[\]\\]/g, '\\$&');
-
-      // Does replace
-      source = source.replace(new RegExp(escapedStatement, 'g'), () => `@${statement[1]}`);
-    })
-
-    // Create a Lua table maping these statements
-    const statementTable = bestStatements
-      .map((statement) => `_${statement[1]}='${statement[0].replace(/\'/g, () => '\\\'')}'`)
-      .join(',');
-
-    // Now we write the Lua to inflate stuff back
-    const inflateLua = helperCompressed
-      .replace('__SYMBOLS__', () => statementTable)
-      .replace('__SOURCE__', () => `\n${source}\n`)
-      .replace('__PARAMS__()', () => `\n${params.map((param) => param.encoded).join('\n')}\n`)
-      .replace(/\n+/g, '\n');
+    // Now we write the Lua to inflate stuff back, line breaks are only collapsed on the template, never on the data
+    const [templateStart, templateEnd] = helperCompressed
+      .replace('__PARAMS__()', () => `\n${params.join('\n')}\n`)
+      .replace(/\n+/g, '\n')
+      .split('__DATA__');
+    const inflateLua = `${templateStart}${dataString}${templateEnd}`;
 
     // Computes final sizes
     const initialSize = Buffer.byteLength(initialLua, 'utf8');
     const compressedSize = Buffer.byteLength(inflateLua, 'utf8');
+    const overhead = options.overhead || 0;
 
-    // If our compressed code yields no results, use the original code
-    if (compressedSize >= initialSize) {
-      CLI.status(this.CLITag, `Compression had no effective result, maintaining original code...`);
+    // If our compressed code (along with anything needed to expand it) yields no results, use the original code
+    if (compressedSize + overhead >= initialSize) {
+      if (!options.quiet) CLI.status(this.CLITag, `Compression had no effective result, maintaining original code...`);
       return initialLua;
     }
 
     // Informs results and returns compressed code
-    CLI.status(this.CLITag, `Input size: ${CLI.formatByteSize(initialSize)}`);
-    CLI.status(this.CLITag, `Final size: ${CLI.formatByteSize(compressedSize)}`);
-    CLI.status(this.CLITag, `Difference: ${CLI.formatByteSize(initialSize - compressedSize)} - Ratio: ${(100 * compressedSize / initialSize).toFixed(2)}%`);
+    if (!options.quiet) {
+      CLI.status(this.CLITag, `Input size: ${CLI.formatByteSize(initialSize)}`);
+      CLI.status(this.CLITag, `Final size: ${CLI.formatByteSize(compressedSize)}${overhead > 0 ? ` (plus ${CLI.formatByteSize(overhead)} for the decompression helper)` : ''}`);
+      CLI.status(this.CLITag, `Difference: ${CLI.formatByteSize(initialSize - compressedSize - overhead)} - Ratio: ${(100 * (compressedSize + overhead) / initialSize).toFixed(2)}%`);
+    }
     return inflateLua;
   }
+
+  /**
+   * Encodes a piece of code with LZ77, matches are found greedily using a hash chain of their first bytes
+   * @param source The code being encoded
+   */
+  private static encode(source: string): string {
+    const bytes = Buffer.from(source, 'utf8');
+    const output: (string | Buffer)[] = [];
+    const chains: Map<number, number[]> = new Map();
+
+    // Helpers
+    const hashAt = (position: number) => {
+      let hash = 0;
+      for (let idx = 0; idx < this.minLength; idx++) hash = (hash * 257 + bytes[position + idx]) | 0;
+      return hash;
+    };
+    const insert = (position: number) => {
+      if (position + this.minLength > bytes.length) return;
+      const hash = hashAt(position);
+      const chain = chains.get(hash) || [];
+      chain.push(position);
+      if (chain.length > this.maxCandidates) chain.shift();
+      chains.set(hash, chain);
+    };
+
+    // Matches never split multi-byte characters, so literals are always valid UTF-8
+    const isCharBoundary = (position: number) => position >= bytes.length || (bytes[position] & 0xC0) != 0x80;
+
+    let position = 0;
+    while (position < bytes.length) {
+      // Finds the longest match within our window
+      let bestLength = 0;
+      let bestDistance = 0;
+      if (position + this.minLength <= bytes.length) {
+        const candidates = chains.get(hashAt(position)) || [];
+        for (let idx = candidates.length - 1; idx >= 0; idx--) {
+          const candidate = candidates[idx];
+          if (position - candidate > this.maxDistance) break;
+
+          let length = 0;
+          while (length < this.maxLength && position + length < bytes.length && bytes[candidate + length] == bytes[position + length]) length++;
+          while (length >= this.minLength && !isCharBoundary(position + length)) length--;
+
+          if (length > bestLength) {
+            bestLength = length;
+            bestDistance = position - candidate;
+          }
+        }
+      }
+
+      if (bestLength >= this.minLength) {
+        // Adds a back-reference
+        const distance = bestDistance - 1;
+        output.push(`@${this.digits[Math.floor(distance / this.digits.length)]}${this.digits[distance % this.digits.length]}${this.digits[bestLength - this.minLength]}`);
+        for (let idx = 0; idx < bestLength; idx++) insert(position + idx);
+        position += bestLength;
+      } else {
+        // Adds a literal character, escaping anything Lua wouldn't keep
+        let end = position + 1;
+        while (!isCharBoundary(end)) end++;
+        const char = bytes.subarray(position, end);
+        output.push(char[0] == 0x40 ? '@@' : char[0] == 0x0D ? '@!' : char);
+        for (let idx = position; idx < end; idx++) insert(idx);
+        position = end;
+      }
+    }
+
+    return Buffer.concat(output.map((part) => 'string' == typeof part ? Buffer.from(part) : part)).toString('utf8');
+  }
+
+  /**
+   * Decodes a piece of code the same way the decompression helper does in-game
+   * @param data The encoded code
+   */
+  private static decode(data: string): string {
+    const bytes = Buffer.from(data, 'utf8');
+    const output: number[] = [];
+    const digit = (byte: number) => this.digits.indexOf(String.fromCharCode(byte));
+
+    for (let position = 0; position < bytes.length;) {
+      if (bytes[position] != 0x40) {
+        output.push(bytes[position++]);
+      } else if (bytes[position + 1] == 0x40) {
+        output.push(0x40);
+        position += 2;
+      } else if (bytes[position + 1] == 0x21) {
+        output.push(0x0D);
+        position += 2;
+      } else {
+        const distance = digit(bytes[position + 1]) * this.digits.length + digit(bytes[position + 2]) + 1;
+        const length = digit(bytes[position + 3]) + this.minLength;
+        for (let idx = 0; idx < length; idx++) output.push(output[output.length - distance]);
+        position += 4;
+      }
+    }
+
+    return Buffer.from(output).toString('utf8');
+  }
+
+  /**
+   * Returns the code as seen by the decompression helper after expanding it in-game, used to map error lines back to the source
+   * @param source The code being compressed
+   */
+  static getExpandedCode(source: DULuaMappedCode): DULuaMappedCode {
+    // Same as the compressor, removes --export statements
+    return source.filterLines((line) => !DULuaCompilerExport.codeHasExportStatement(line));
+  }
 }
\ No newline at end of file
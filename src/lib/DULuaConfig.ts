@@ -5,15 +5,18 @@ import Build from "../types/Build";
 import BuildTarget from "../types/BuildTarget";
 import ElementTypes, { ElementType, ElementTypeEvent } from "../types/ElementType";
 import { SimpleMap } from "../types/SimpleMap";
+import { CLI } from "./CLI";
 import ColorScheme from "./ColorScheme";
 import { DULuaCompiler, DULuaCompilerResult } from "./DULuaCompiler";
-import { DULuaCompressor } from "./DULuaCompressor";
-
-// @ts-ignore
-import luamin from "@wolfe-labs/luamin";
-import { CLI } from "./CLI";
+import { DULuaCompressor, DULuaCompressorOptions } from "./DULuaCompressor";
 import { DULuaCompilerExport } from "./DULuaCompilerExport";
 import Utils from "./Utils";
+import { DULuaCodeReplacement, DULuaMappedCode } from "./DULuaMappedCode";
+import { DULuaLexer, DULuaTokenType } from "./DULuaLexer";
+import { DULuaMinifier, DULuaMinifierMangledTable, DULuaMinifierResult } from "./DULuaMinifier";
+import { DULuaSourceMap, DULuaSourceMapChunk, DULuaSourceMapData } from "./DULuaSourceMap";
+import { DULuaDiagnostics } from "./DULuaDiagnostics";
+import { DULuaTreeShaker } from "./DULuaTreeShaker";
 
 export type DULuaConfigSlot = {
   name: string,
@@ -61,6 +64,43 @@ export type DULuaUnitConfigHandlerFilterSignature = {
   args: string[],
 };
 
+/**
+ * Extra information we keep about each handler, not exported to DU
+ */
+export type DULuaConfigHandlerDetails = {
+  handler: DULuaUnitConfigHandler,
+  slot: DULuaConfigSlot,
+  name?: string,
+  code: DULuaMappedCode,
+};
+
+/**
+ * The short names given to preload keys and private table fields on mangled builds, not exported to DU
+ */
+export type DULuaConfigMangling = {
+  modules: SimpleMap<string>,
+  tables: SimpleMap<DULuaMinifierMangledTable[]>,
+};
+
+/**
+ * The kinds of code making up a build's output
+ */
+export enum DULuaConfigContributorType {
+  Module = 'module',
+  Helper = 'helper',
+  Handler = 'handler',
+  Main = 'main',
+}
+
+/**
+ * A piece of code making up a build's output, before any processing, not exported to DU
+ */
+export type DULuaConfigContributor = {
+  name: string,
+  type: DULuaConfigContributorType,
+  source: string,
+};
+
 /**
  * The types below now refer to the "auto config", aka the CONF files!
  * Autoconf should follow this format:
@@ -118,12 +158,18 @@ const compilerInternals = {
   linking: fs.readFileSync(Application.getPath('lua/AutoConfig.lua')).toString(),
   decompression: fs.readFileSync(Application.getPath('lua/Decompression.lua')).toString(),
   compressedTemplate: fs.readFileSync(Application.getPath('lua/Compressed.lua')).toString(),
+  errorHandler: fs.readFileSync(Application.getPath('lua/ErrorHandler.lua')).toString(),
 };
 
 // This is a "onStart" event
 const eventOnStart: ElementTypeEvent = { signature: 'onStart()' };
 
 export class DULuaConfig {
+  /**
+   * Tag we're using when reporting minification results
+   */
+  private static CLITag = 'MINIFY';
+
   /**
    * This will store our slots, but not any code
    */
@@ -134,10 +180,30 @@ export class DULuaConfig {
    */
   private handlers: DULuaUnitConfigHandler[] = [];
 
+  /**
+   * This will store extra details about our handlers, such as where their code came from
+   */
+  private handlerDetails: DULuaConfigHandlerDetails[] = [];
+
   /**
    * This is the main code
    */
-  private mainCode: string = '';
+  private mainCode: DULuaMappedCode = DULuaMappedCode.fromGenerated('');
+
+  /**
+   * This is the main code after being expanded by the decompression helper, for compressed builds
+   */
+  private expandedCode: DULuaMappedCode | null = null;
+
+  /**
+   * The short names used on mangled builds
+   */
+  private mangling: DULuaConfigMangling | null = null;
+
+  /**
+   * Every piece of code making up the output, as it was before being processed
+   */
+  private contributors: DULuaConfigContributor[] = [];
 
   /**
    * Unused?
@@ -151,6 +217,7 @@ export class DULuaConfig {
 
   private constructor(
     private compilerResult: DULuaCompilerResult,
+    private buildTarget: BuildTarget,
   ) { }
 
   /**
@@ -192,19 +259,9 @@ export class DULuaConfig {
     }
 
     // Processes handlers
-    this.handlers.forEach((handler) => {
-      // Gets the slot for this handler
-      const slot = this.slots.get(handler.filter.slotKey.toString())!;
-
-      // Parses the signature
-      const signature = handler.filter.signature;
-
-      // Now add the handler code
-      handlers[slot.name][signature] = {
-        lua: [
-          handlers[slot.name][signature]?.lua || '',
-          handler.code,
-        ].join('\n').trim(),
+    this.getAutoConfigHandlers().forEach((handler) => {
+      handlers[handler.slot][handler.event] = {
+        lua: handler.code.code,
       };
     });
 
@@ -216,6 +273,74 @@ export class DULuaConfig {
     };
   }
 
+  /**
+   * Merges all handlers for the same slot and event, as done in the autoconf format
+   */
+  private getAutoConfigHandlers(): { slot: string, event: string, code: DULuaMappedCode }[] {
+    const result: { slot: string, event: string, code: DULuaMappedCode }[] = [];
+
+    this.handlerDetails.forEach((details) => {
+      // Gets the slot for this handler
+      const slot = this.slots.get(details.handler.filter.slotKey.toString())!;
+
+      // Parses the signature
+      const signature = details.handler.filter.signature;
+
+      // Now add the handler code, merging with any existing one
+      const existing = result.find((entry) => entry.slot == slot.name && entry.event == signature);
+      if (existing) {
+        existing.code = DULuaMappedCode.join([existing.code, details.code]).trim();
+      } else {
+        result.push({
+          slot: slot.name,
+          event: signature,
+          code: details.code.trim(),
+        });
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Generates a source map, pointing each line of the output handlers back to the original files
+   */
+  public toSourceMap(): DULuaSourceMapData {
+    // Lists our source files relative to the project
+    const sources: SimpleMap<string> = {};
+    for (const source in this.compilerResult.sources) {
+      sources[source] = path.relative(this.compilerResult.project.getProjectDirectory(), this.compilerResult.sources[source]).replace(/\\/g, '/');
+    }
+
+    // Maps each of the handlers
+    const handlers: DULuaSourceMapChunk[] = this.handlerDetails.map((details) => ({
+      key: details.handler.key,
+      slot: details.slot.name,
+      event: details.handler.filter.signature,
+      name: details.name,
+      segments: DULuaSourceMap.createSegments(details.code),
+    }));
+
+    // Maps the merged autoconf handlers
+    const autoconf: DULuaSourceMapChunk[] = this.getAutoConfigHandlers().map((handler) => ({
+      slot: handler.slot,
+      event: handler.event,
+      segments: DULuaSourceMap.createSegments(handler.code),
+    }));
+
+    return {
+      version: DULuaSourceMap.version,
+      project: this.compilerResult.project.name,
+      build: this.compilerResult.build.name,
+      target: this.buildTarget.name,
+      sources,
+      handlers,
+      autoconf,
+      main: DULuaSourceMap.createSegments(this.mainCode),
+      ...(this.expandedCode ? { expanded: DULuaSourceMap.createSegments(this.expandedCode) } : {}),
+    };
+  }
+
   /**
    * Those are the built-in slots on DU
    */
@@ -298,8 +423,9 @@ export class DULuaConfig {
   /**
    * Processes a build into a slot list
    * @param build The build being processed
+   * @param diagnostics Where any invalid linked elements are reported
    */
-  private static getSlotListFromLinkedElements(build: Build): SimpleMap<DULuaConfigSlot> {
+  private static getSlotListFromLinkedElements(build: Build, diagnostics: DULuaDiagnostics): SimpleMap<DULuaConfigSlot> {
     // This will be our result object
     const result: SimpleMap<DULuaConfigSlot> = {};
 
@@ -326,7 +452,8 @@ export class DULuaConfig {
     build.getLinkedElements().forEach((linkedElement, index) => {
       // Fails if the linked element has an internal name
       if (protectedNames.includes(linkedElement.name)) {
-        throw new Error(`Build ${ColorScheme.highlight(build.name)} uses a reserved linked element name: ${ColorScheme.highlight(linkedElement.name)}`);
+        diagnostics.error(`Build ${ColorScheme.highlight(build.name)} uses a reserved linked element name: ${ColorScheme.highlight(linkedElement.name)}`);
+        return;
       }
 
       // Gets the slot id
@@ -343,7 +470,8 @@ export class DULuaConfig {
 
       // Fails on error
       if (!slotType) {
-        throw new Error(`Could not find element of type ${ColorScheme.highlight(linkedElement.type)} on build ${ColorScheme.highlight(build.name)}, link ${ColorScheme.highlight(linkedElement.name)}`);
+        diagnostics.error(`Could not find element of type ${ColorScheme.highlight(linkedElement.type)} on build ${ColorScheme.highlight(build.name)}, link ${ColorScheme.highlight(linkedElement.name)}`);
+        return;
       }
 
       // Sets the link
@@ -380,7 +508,7 @@ export class DULuaConfig {
    * Parses an event signature
    * @param signature The event signature
    */
-  private static parseEventSignature(signature: string): DULuaUnitConfigHandlerFilterSignature {
+  static parseEventSignature(signature: string): DULuaUnitConfigHandlerFilterSignature {
     // Gets a list of arguments from the event signature
     const parsed = /(.*?)\s*\((.*?)\)/g.exec(signature) || [];
 
@@ -394,15 +522,68 @@ export class DULuaConfig {
     };
   }
 
+  /**
+   * Gets the name shown for a handler when its errors are caught by the error handling wrapper
+   * @param slot The slot name
+   * @param signature The event signature
+   * @param name The handler's friendly name, if any
+   */
+  public static getHandlerLabel(slot: string, signature: string, name?: string): string {
+    const eventName = `${slot}.${signature}`;
+    return name ? `${name} (${eventName})` : eventName;
+  }
+
+  /**
+   * Wraps a handler's code so any runtime errors are caught and printed to the Lua chat
+   * @param code The handler code
+   * @param handlerName The name shown when an error happens
+   */
+  private static wrapErrorHandling(code: DULuaMappedCode, handlerName: string): DULuaMappedCode {
+    // The --export statements must stay at the top level of the handler, so we move them before the wrapper
+    const isExport = (line: string) => DULuaCompilerExport.codeHasExportStatement(line) && !!DULuaCompilerExport.parseExportStatement(line);
+    const exports = code.filterLines((line) => isExport(line));
+    const source = code.filterLines((line) => !isExport(line));
+
+    // Prepares the wrapper template, the __SOURCE__() call is used as placeholder so it survives minification
+    const wrapper = Application.isDebugging()
+      ? compilerInternals.errorHandler
+      : this.runMinifier(compilerInternals.errorHandler);
+
+    // Splits the wrapper around our source
+    const [wrapperStart, wrapperEnd] = wrapper
+      .replace('__HANDLER__', () => handlerName.replace(/\\/g, '\\\\').replace(/'/g, '\\\''))
+      .split('__SOURCE__()');
+
+    // Builds the final handler
+    return DULuaMappedCode.join([
+      ...(exports.code.length > 0 ? [exports] : []),
+      wrapperStart,
+      source,
+      wrapperEnd,
+    ]);
+  }
+
   /**
    * Creates an autoconf handler entry for a project slot
    * @param slot The config slot
+   * @param event The event being handled
    * @param code The code for that
+   * @param name A friendly name for the handler, used when reporting errors
    */
-  private addUnitConfigHandlerEntry(slot: DULuaConfigSlot, event: ElementTypeEvent, code: string) {
+  private addUnitConfigHandlerEntry(slot: DULuaConfigSlot, event: ElementTypeEvent, code: DULuaMappedCode | string, name?: string) {
     // Parses our event signature
     const parsedEvent = DULuaConfig.parseEventSignature(event.signature);
 
+    // Plain strings are considered generated code
+    if (!(code instanceof DULuaMappedCode)) {
+      code = DULuaMappedCode.fromGenerated(code);
+    }
+
+    // Wraps the code with error handling, when enabled
+    if (this.buildTarget.handleErrors) {
+      code = DULuaConfig.wrapErrorHandling(code, DULuaConfig.getHandlerLabel(slot.name, event.signature, name));
+    }
+
     // Creates the handler entry
     const entry: DULuaUnitConfigHandler = {
       key: this.handlers.length + 1,
@@ -411,34 +592,85 @@ export class DULuaConfig {
         signature: event.signature,
         args: parsedEvent.args.map((arg) => Object.assign({ variable: '*' })),
       },
-      code: code,
+      code: code.code,
     };
 
     // Adds the entry
     this.handlers.push(entry);
+    this.handlerDetails.push({
+      handler: entry,
+      slot,
+      name,
+      code,
+    });
   }
 
   /**
    * Sets the main code for the entry-point on that Control Unit
    * @param code The Lua code for the Control Unit
    */
-  private setMainCode(code: string, buildTarget: BuildTarget) {
-    // Expands --export statements
-    this.mainCode = DULuaConfig.restoreExports(code, buildTarget.minify);
+  private setMainCode(code: DULuaMappedCode) {
+    this.mainCode = code;
 
     // Adds the actual event handler
     this.addUnitConfigHandlerEntry(
       DULuaConfig.internalSlots.unit,
       eventOnStart,
-      this.mainCode
+      this.mainCode,
+      'Main code'
     );
   }
 
+  /**
+   * Returns the short names used for preload keys and table fields, for mangled builds
+   */
+  public getMangling(): DULuaConfigMangling | null {
+    return this.mangling;
+  }
+
+  /**
+   * Returns every piece of code making up the output (required files, helpers, slot handlers and main code), before being processed
+   */
+  public getContributors(): DULuaConfigContributor[] {
+    return this.contributors;
+  }
+
+  /**
+   * Returns every handler along with the slot it belongs to and its mapped code, in the same order as exported
+   */
+  public getHandlers(): DULuaConfigHandlerDetails[] {
+    return this.handlerDetails;
+  }
+
   /**
    * Returns the main code for this Control Unit
    */
   public getMainCode(): string {
-    return this.mainCode;
+    return this.mainCode.code;
+  }
+
+  /**
+   * Runs the minifier on a piece of code, also returning the input lines making up each output line
+   * @param code The code being minified
+   */
+  static runMinifierWithLines(code: string): DULuaMinifierResult {
+    try {
+      return DULuaMinifier.process(code);
+    } catch (err) {
+      throw new Error(`Error during minification: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  /**
+   * Runs the minifier on a piece of code, also renaming the fields of tables which never leave their variables
+   * @param code The code being minified
+   */
+  static runMinifierWithMangling(code: string): DULuaMinifierResult {
+    try {
+      return DULuaMinifier.process(code, { mangleFields: true });
+    } catch (err) {
+      throw new Error(`Error during minification: ${err instanceof Error ? err.message : err}`);
+    }
   }
 
   /**
@@ -449,29 +681,34 @@ export class DULuaConfig {
     let minified: string = code;
     try {
       // Minifies code
-      minified = luamin.minify(code)
-        .replace(/\r/gi, '')
-        .replace(/[\n\s]{2,}/gi, ' ');
-
-      // We need to do some processing on the code here
+      minified = DULuaMinifier.minify(code);
     } catch (err) {
-      // Panics
-      CLI.error('Error during minification:', err);
-      CLI.code(code);
-      CLI.panic();
+      throw new Error(`Error during minification: ${err instanceof Error ? err.message : err}`);
     }
     return minified;
   }
 
   /**
-   * Restores --export statements from a piece of code
-   * @param code The code being restored
-   * @param isMinified Was the code already minified?
+   * Runs the compressor on a piece of code, using our template for compressed code
+   * @param code The code being compressed
+   * @param options The compression options
+   */
+  static runCompressor(code: string, options: DULuaCompressorOptions = {}): string {
+    return DULuaCompressor.compress(code, this.runMinifier(compilerInternals.compressedTemplate), options);
+  }
+
+  /**
+   * Replaces the keys used to require files by their short names
+   * @param code The code being processed
+   * @param modules The short name of each file, indexed by its full name
    */
-  static restoreExports(code: string, isMinified: boolean): string {
-    return code.split('\n')
-      .map((line) => DULuaCompilerExport.decodeAllExportStatements(line, isMinified))
-      .join('\n');
+  private static mangleRequires(code: string, modules: SimpleMap<string>): string {
+    for (const module in modules) {
+      code = code
+        .split(`require('${module}')`).join(`require('${modules[module]}')`)
+        .split(`${DULuaCompiler.globalInlineRequire}['${module}']`).join(`${DULuaCompiler.globalInlineRequire}['${modules[module]}']`);
+    }
+    return code;
   }
 
   /**
@@ -496,34 +733,63 @@ export class DULuaConfig {
 
   /**
    * Does post-processing accordingly to build target options
+   * @param code The code being processed
+   * @param buildTarget The build target being used
+   * @param minify Should the code be minified?
+   * @param name The name shown when reporting the minification results
+   * @param mangling Where the fields renamed are kept, for mangled builds
    */
-  private static applyCodePostProcessing(code: string, buildTarget: BuildTarget, minify: boolean = false): string {
+  private static applyCodePostProcessing(code: DULuaMappedCode, buildTarget: BuildTarget, minify: boolean = false, name?: string, mangling?: DULuaConfigMangling | null): DULuaMappedCode {
     // Strips comments if necessary
     if (buildTarget.stripComments) {
-      // Strips multi-line comments
-      code = code.replace(/--\[\[[\s\S]*?\]\]\s*?\n/g, '');
-
-      // Strips single-line comments, except --export ones
-      code = code.split('\n')
-        .map(line => `${line}\n`)
-        .map(line => {
-          // Avoid matching strings with a sequence of dashes
-          if (line.match(/'.*?--.*?'/g) || line.match(/"--.*?.*?"/g)) {
-            return line;
-          }
-
-          // Cleans-up the comments
-          return line.replace(/(--.*?\n)/g, (match) => match.startsWith('--export') ? match : '');
-        })
-        .join('');
+      // Strips comments, except --export ones, lines left empty are removed entirely
+      const replacements: DULuaCodeReplacement[] = [];
+      const tokens = DULuaLexer.tokenize(code.code);
+      tokens.forEach((token, idx) => {
+        if (token.type != DULuaTokenType.Comment || token.value.startsWith('--export')) return;
+
+        // Checks for anything else on the same line
+        const previous = tokens[idx - 1];
+        const next = tokens[idx + 1];
+        const startsLine = !previous || (previous.type == DULuaTokenType.Whitespace && (previous.start == 0 || previous.value.includes('\n')));
+        const endsLine = next?.type == DULuaTokenType.Whitespace && next.value.includes('\n');
+
+        if (startsLine && endsLine) {
+          // Removes the indentation and line break along with the comment
+          replacements.push({
+            start: previous ? previous.start + previous.value.lastIndexOf('\n') + 1 : 0,
+            end: next.start + next.value.indexOf('\n') + 1,
+            replacement: '',
+          });
+        } else if (endsLine && previous?.type == DULuaTokenType.Whitespace) {
+          // Removes any trailing whitespace along with the comment
+          replacements.push({ start: previous.start, end: token.end, replacement: '' });
+        } else {
+          replacements.push({ start: token.start, end: token.end, replacement: '' });
+        }
+      });
+      code = code.replaceRanges(replacements);
 
       // Removes whitespace around the code
       code = code.trim();
     }
 
-    // Handles minification
+    // Handles minification, reporting how much we saved
     if (minify) {
-      code = this.runMinifier(code);
+      const sizeBefore = Buffer.byteLength(code.code);
+      code = code.transform((code) => {
+        if (!mangling || !name) return this.runMinifierWithLines(code);
+
+        // Mangled builds also rename the fields of tables that never leave their variables
+        const result = this.runMinifierWithMangling(code);
+        if (result.tables.length > 0) mangling.tables[name] = result.tables;
+        return result;
+      });
+      const sizeAfter = Buffer.byteLength(code.code);
+
+      if (name) {
+        CLI.status(this.CLITag, `${ColorScheme.highlight(name)}: ${CLI.formatByteSize(sizeBefore)} -> ${CLI.formatByteSize(sizeAfter)} (${sizeBefore > 0 ? (100 * (sizeBefore - sizeAfter) / sizeBefore).toFixed(1) : '0.0'}% smaller)`);
+      }
     }
 
     return code;
@@ -532,15 +798,18 @@ export class DULuaConfig {
   /**
    * Creates a config file from a compiler result
    * @param compilerResult 
+   * @param buildTarget The build target being used
+   * @param diagnostics Where any errors found are reported
    */
-  static fromCompilerResult(compilerResult: DULuaCompilerResult, buildTarget: BuildTarget): DULuaConfig {
+  static fromCompilerResult(compilerResult: DULuaCompilerResult, buildTarget: BuildTarget, diagnostics: DULuaDiagnostics = new DULuaDiagnostics()): DULuaConfig {
     // Our final autoconf object
-    const autoconf = new this(compilerResult);
+    const autoconf = new this(compilerResult, buildTarget);
+    const initialErrorCount = diagnostics.getErrorCount();
     
     // This is all our slots
     const slots = {
       ...this.getInternalSlotsWithFilteredEvents(compilerResult.build.events),
-      ...this.getSlotListFromLinkedElements(compilerResult.build),
+      ...this.getSlotListFromLinkedElements(compilerResult.build, diagnostics),
     };
 
     // Processes the slots
@@ -550,7 +819,7 @@ export class DULuaConfig {
     }
 
     // Stuff that's going to be prepended to main
-    let mainPrepend = [];
+    let mainPrepend: (DULuaMappedCode | string)[] = [];
 
     // Adds Lua helpers
     if (compilerResult.build.options.helpers) {
@@ -558,38 +827,46 @@ export class DULuaConfig {
       autoconf.addUnitConfigHandlerEntry(
         this.internalSlots.library,
         eventOnStart,
-        this.isolateCompilerInternal(compilerInternals.events)
+        this.isolateCompilerInternal(compilerInternals.events),
+        'Event helpers'
       );
+      autoconf.contributors.push({ name: 'Events', type: DULuaConfigContributorType.Helper, source: compilerInternals.events });
 
       // Linking helpers
       autoconf.addUnitConfigHandlerEntry(
         this.internalSlots.library,
         eventOnStart,
-        this.isolateCompilerInternal(compilerInternals.linking)
+        this.isolateCompilerInternal(compilerInternals.linking),
+        'Linking helpers'
       );
+      autoconf.contributors.push({ name: 'AutoConfig', type: DULuaConfigContributorType.Helper, source: compilerInternals.linking });
+    }
 
-      // Decompression helper, only for compressed builds
-      if (compilerResult.build.options.compress) {
-        autoconf.addUnitConfigHandlerEntry(
-          this.internalSlots.library,
-          eventOnStart,
-          Application.isDebugging()
-            ? compilerInternals.decompression
-            : this.runMinifier(compilerInternals.decompression)
-        );
-      }
+    // Removes unused functions from required files
+    const compilerPreloads = compilerResult.build.options.treeShake
+      ? DULuaTreeShaker.process(compilerResult)
+      : compilerResult.preloads;
+
+    // Mangled builds give each of the preloads a short name
+    if (buildTarget.minify && buildTarget.mangle) {
+      autoconf.mangling = { modules: {}, tables: {} };
+      compilerPreloads.forEach((preload, idx) => autoconf.mangling!.modules[preload.path] = DULuaMinifier.getName(idx));
     }
+    const getPreloadKey = (path: string) => autoconf.mangling?.modules[path] ?? path;
+    const getPreloadSource = (source: string) => autoconf.mangling ? this.mangleRequires(source, autoconf.mangling.modules) : source;
 
-    // Restores preloads
-    const preloads = compilerResult.preloads.map(
+    // Processes preloads, each of them is minified separately
+    const preloads = compilerPreloads.map(
       (preload) => {
-        // This is our main code, we returns the --export statements along with minifying it
-        const code = this.restoreExports(
-          buildTarget.minify
-            ? this.runMinifier(preload.source)
-            : preload.source,
-          buildTarget.minify
-        );
+        autoconf.contributors.push({ name: preload.path, type: DULuaConfigContributorType.Module, source: preload.source });
+
+        const source = DULuaMappedCode.fromSource(getPreloadSource(preload.source), preload.path);
+        let code = source;
+        try {
+          code = this.applyCodePostProcessing(source, buildTarget, buildTarget.minify, preload.path, autoconf.mangling);
+        } catch (err) {
+          diagnostics.addException(err, { file: compilerResult.sources[preload.path] });
+        }
 
         // Now we generate a new preload string
         return {
@@ -602,15 +879,20 @@ export class DULuaConfig {
     // Adds preloads
     if (compilerResult.build.options.preload) {
       // Formats our preload as a proper Lua preload
-      const preloadCode = preloads.map(
-        (preload) => `package.preload['${preload.path}']=(function()\n${this.applyCodePostProcessing(preload.code, buildTarget, buildTarget.minify)}\nend)`
-      ).join('\n');
+      const preloadCode = DULuaMappedCode.join(preloads.map(
+        (preload) => DULuaMappedCode.join([
+          `package.preload['${getPreloadKey(preload.path)}']=(function()`,
+          preload.code,
+          `end)`,
+        ])
+      ));
 
       // Adds the preloads
       autoconf.addUnitConfigHandlerEntry(
         this.internalSlots.library,
         eventOnStart,
         preloadCode,
+        'Preloads'
       );
     } else {
       // Inlines code at beginning of the main code as Lua preloads, but we invoke that function too, since Lua requires won't be used
@@ -619,7 +901,11 @@ export class DULuaConfig {
           `-- Required files, generated by compiler`,
           `${DULuaCompiler.globalInlineRequire} = {}`,
           ...preloads.map(
-            (preload) => `${DULuaCompiler.globalInlineRequire}['${preload.path}']=(function()\n${this.applyCodePostProcessing(preload.code, buildTarget, buildTarget.minify)}\nend)()`
+            (preload) => DULuaMappedCode.join([
+              `${DULuaCompiler.globalInlineRequire}['${getPreloadKey(preload.path)}']=(function()`,
+              preload.code,
+              `end)()`,
+            ])
           )
         );
       }
@@ -631,7 +917,8 @@ export class DULuaConfig {
       const slotEventInitializationCode = Object.keys(slots)
         .map((slotName) => `library.addEventHandlers(${slotName})`)
         .join('\n');
-      autoconf.addUnitConfigHandlerEntry(this.internalSlots.library, eventOnStart, slotEventInitializationCode);
+      autoconf.addUnitConfigHandlerEntry(this.internalSlots.library, eventOnStart, slotEventInitializationCode, 'Event setup');
+      autoconf.contributors.push({ name: 'Event setup', type: DULuaConfigContributorType.Handler, source: slotEventInitializationCode });
 
       // Adds event handlers
       Object.keys(slots).forEach((slotName) => {
@@ -663,32 +950,58 @@ export class DULuaConfig {
 
           // Adds the slot handler
           autoconf.addUnitConfigHandlerEntry(slot, event, code);
+          autoconf.contributors.push({ name: `${slot.name}.${event.signature}`, type: DULuaConfigContributorType.Handler, source: code });
         });
       });
     }
 
-    // Those are the code "parts"
-    const mainCodeParts = [compilerResult.output];
+    // Those are the code "parts", the main file is processed on its own so we can report its results
+    const shouldMinifyMain = buildTarget.minify || compilerResult.build.options.compress;
+    const mainCodeParts = [
+      this.applyCodePostProcessing(DULuaMappedCode.fromSource(getPreloadSource(compilerResult.output), compilerResult.entrypoint), buildTarget, shouldMinifyMain, compilerResult.entrypoint, autoconf.mangling),
+    ];
     if (mainPrepend.length > 0) {
-      mainCodeParts.unshift(mainPrepend.join('\n'));
+      mainCodeParts.unshift(this.applyCodePostProcessing(DULuaMappedCode.join(mainPrepend), buildTarget, shouldMinifyMain));
     }
 
     // This is our base code
-    let mainCode = mainCodeParts.join('\n\n');
+    let mainCode = DULuaMappedCode.join(mainCodeParts, '\n\n');
 
-    // Does initial post-processing
-    mainCode = this.applyCodePostProcessing(mainCode, buildTarget, buildTarget.minify || compilerResult.build.options.compress);
+    // Reports what was mangled
+    if (autoconf.mangling) {
+      const tables = Object.values(autoconf.mangling.tables).flat();
+      const fieldCount = tables.reduce((count, table) => count + Object.keys(table.fields).length, 0);
+      CLI.status(this.CLITag, `Shortened ${Object.keys(autoconf.mangling.modules).length} preload keys and ${fieldCount} fields on ${tables.length} private tables`);
+    }
 
-    // Compresses main code if needed
+    // Compresses main code if needed, only when it's still smaller after adding the decompression helper
     if (compilerResult.build.options.compress) {
-      mainCode = DULuaCompressor.compress(
-        mainCode,
-        this.runMinifier(compilerInternals.compressedTemplate)
-      );
+      const decompressionHelper = Application.isDebugging()
+        ? compilerInternals.decompression
+        : this.runMinifier(compilerInternals.decompression);
+      const compressedMainCode = this.runCompressor(mainCode.code, {
+        overhead: compilerResult.build.options.helpers ? Buffer.byteLength(decompressionHelper) : 0,
+      });
+
+      // When compression is effective we also keep track of how the code looks like when expanded in-game
+      if (compressedMainCode != mainCode.code) {
+        // The decompression helper is only added when actually used
+        if (compilerResult.build.options.helpers) {
+          autoconf.addUnitConfigHandlerEntry(this.internalSlots.library, eventOnStart, decompressionHelper, 'Decompression helpers');
+          autoconf.contributors.push({ name: 'Decompression', type: DULuaConfigContributorType.Helper, source: compilerInternals.decompression });
+        }
+
+        autoconf.expandedCode = DULuaCompressor.getExpandedCode(mainCode);
+        mainCode = DULuaMappedCode.fromGenerated(compressedMainCode);
+      }
     }
 
     // This is the entrypoint
-    autoconf.setMainCode(mainCode, buildTarget);
+    autoconf.setMainCode(mainCode);
+    autoconf.contributors.push({ name: compilerResult.entrypoint, type: DULuaConfigContributorType.Main, source: compilerResult.output });
+
+    // Stops if any errors were found
+    diagnostics.throwIfErrors(compilerResult.project, initialErrorCount);
 
     // Done
     return autoconf;
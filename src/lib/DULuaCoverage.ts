@@ -0,0 +1,260 @@
+import fs from "fs";
+import path from "path";
+import Project from "../types/Project";
+import { SimpleMap } from "../types/SimpleMap";
+import { DULuaDiagnostics } from "./DULuaDiagnostics";
+
+/**
+ * Represents the line coverage of a single source file
+ */
+export type DULuaCoverageFile = {
+  // The full path of the file
+  file: string,
+
+  // How many times each of the instrumented lines was run, by line number
+  lines: SimpleMap<number>,
+};
+
+/**
+ * Collects line coverage of the project's sources while running them locally, the compiler instruments the code and the VM reports the hits back
+ */
+export class DULuaCoverage {
+  /**
+   * The global function called by instrumented code, as (file id, line)
+   */
+  static readonly functionName = '__COVERAGE';
+
+  /**
+   * All instrumented files, their index is the file id used by the instrumented code
+   */
+  private files: DULuaCoverageFile[] = [];
+
+  /**
+   * Creates a new coverage collector
+   * @param project The project being measured
+   * @param excludedFiles Full paths of files which should never be instrumented, such as the tests themselves
+   */
+  constructor(private project: Project, private excludedFiles: string[] = []) {}
+
+  /**
+   * Checks whether a file should be instrumented, only the project's sources are, libraries have their own tests
+   * @param fullpath The full path of the file
+   */
+  shouldInstrument(fullpath: string): boolean {
+    return this.project.containsPath(fullpath, true)
+      && !fullpath.startsWith(this.project.getLibraryDirectory() + path.sep)
+      && !this.excludedFiles.includes(fullpath);
+  }
+
+  /**
+   * Registers a file being instrumented, the same file can be registered multiple times (once per build)
+   * @param fullpath The full path of the file
+   * @param lines The lines being instrumented
+   * @returns The id of the file, used by the instrumented code
+   */
+  addFile(fullpath: string, lines: number[]): number {
+    let id = this.files.findIndex((entry) => entry.file == fullpath);
+    if (id < 0) {
+      id = this.files.push({ file: fullpath, lines: {} }) - 1;
+    }
+
+    lines.forEach((line) => this.files[id].lines[line] = this.files[id].lines[line] ?? 0);
+    return id;
+  }
+
+  /**
+   * Records a line being run, called by the instrumented code
+   * @param id The file id
+   * @param line The line number
+   */
+  hit(id: number, line: number): void {
+    const file = this.files[id];
+    if (file) {
+      file.lines[line] = (file.lines[line] ?? 0) + 1;
+    }
+  }
+
+  /**
+   * Gets the coverage of all instrumented files, sorted by path
+   */
+  getFiles(): DULuaCoverageFile[] {
+    return [...this.files].sort((a, b) => a.file.localeCompare(b.file));
+  }
+
+  /**
+   * Renders the coverage as a text table, listing the lines never run on each file
+   */
+  toTable(): string {
+    const rows = [
+      ['File', 'Lines', 'Hit', 'Coverage', 'Missed lines'],
+      ...this.getFiles().map((file) => {
+        const { total, hit } = DULuaCoverage.count([file]);
+        return [this.getDisplayPath(file), `${total}`, `${hit}`, DULuaCoverage.formatPercentage(hit, total), DULuaCoverage.formatMissedLines(file)];
+      }),
+    ];
+    const { total, hit } = DULuaCoverage.count(this.files);
+    rows.push(['Total', `${total}`, `${hit}`, DULuaCoverage.formatPercentage(hit, total), '']);
+
+    // Names and missed lines are aligned to the left, numbers to the right
+    const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+    return rows
+      .map((row) => row.map((value, column) => column == 0 || column == 4 ? value.padEnd(widths[column]) : value.padStart(widths[column])).join('  ').trimEnd())
+      .join('\n');
+  }
+
+  /**
+   * Renders the coverage in the LCOV format, file paths are relative to the project
+   */
+  toLCOV(): string {
+    return this.getFiles()
+      .map((file) => {
+        const lines = DULuaCoverage.getLineNumbers(file);
+        return [
+          'TN:',
+          `SF:${this.getDisplayPath(file)}`,
+          ...lines.map((line) => `DA:${line},${file.lines[line]}`),
+          `LF:${lines.length}`,
+          `LH:${lines.filter((line) => file.lines[line] > 0).length}`,
+          'end_of_record',
+        ].join('\n');
+      })
+      .join('\n') + '\n';
+  }
+
+  /**
+   * Renders the coverage as a standalone HTML page, with the source of each file highlighting which lines were run
+   */
+  toHTML(): string {
+    const escape = (value: string) => value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+    const files = this.getFiles();
+
+    // Summary of each file, linking to its source
+    const rows = files.map((file, idx) => {
+      const { total, hit } = DULuaCoverage.count([file]);
+      const percentage = total > 0 ? 100 * hit / total : 100;
+      return [
+        `<tr>`,
+        `<td><a href="#file-${idx}">${escape(this.getDisplayPath(file))}</a></td>`,
+        `<td class="number">${total}</td>`,
+        `<td class="number">${hit}</td>`,
+        `<td><div class="bar"><div style="width: ${percentage.toFixed(1)}%"></div></div>${percentage.toFixed(1)}%</td>`,
+        `</tr>`,
+      ].join('');
+    });
+
+    // Source of each file, lines not instrumented (such as comments and "end") are left uncolored
+    const sources = files.map((file, idx) => {
+      const source = fs.existsSync(file.file) ? fs.readFileSync(file.file).toString().replace(/\r\n/g, '\n').split('\n') : [];
+      const lines = source.map((code, lineIdx) => {
+        const hits = file.lines[lineIdx + 1];
+        const status = undefined === hits ? '' : hits > 0 ? 'hit' : 'miss';
+        return `<tr class="${status}"><td class="number">${lineIdx + 1}</td><td class="number">${undefined === hits ? '' : `${hits}x`}</td><td><pre>${escape(code)}</pre></td></tr>`;
+      });
+      return [
+        `<h2 id="file-${idx}">${escape(this.getDisplayPath(file))}</h2>`,
+        `<table class="source">`,
+        ...lines,
+        `</table>`,
+      ].join('\n');
+    });
+
+    const { total, hit } = DULuaCoverage.count(files);
+    const title = escape(`${this.project.name} (${DULuaCoverage.formatPercentage(hit, total)} of lines)`);
+    return [
+      `<!DOCTYPE html>`,
+      `<html>`,
+      `<head>`,
+      `<meta charset="utf-8">`,
+      `<title>Coverage report: ${title}</title>`,
+      `<style>`,
+      `body { font-family: sans-serif; margin: 2em; }`,
+      `table { border-collapse: collapse; width: 100%; }`,
+      `th, td { padding: 4px 8px; border-bottom: 1px solid #ddd; text-align: left; }`,
+      `.number { text-align: right; white-space: nowrap; color: #666; }`,
+      `.bar { display: inline-block; width: 100px; height: 10px; margin-right: 6px; background: #e06c6c; }`,
+      `.bar div { height: 10px; background: #4caf50; }`,
+      `.source td { padding: 0 8px; border: none; }`,
+      `.source td:first-child, .source td:nth-child(2) { width: 1%; }`,
+      `.source pre { margin: 0; }`,
+      `.hit { background: #e6f6e6; }`,
+      `.miss { background: #fbe3e3; }`,
+      `</style>`,
+      `</head>`,
+      `<body>`,
+      `<h1>Coverage report: ${title}</h1>`,
+      `<table>`,
+      `<thead><tr><th>File</th><th class="number">Lines</th><th class="number">Hit</th><th>Coverage</th></tr></thead>`,
+      `<tbody>`,
+      ...rows,
+      `</tbody>`,
+      `</table>`,
+      ...sources,
+      `</body>`,
+      `</html>`,
+    ].join('\n');
+  }
+
+  /**
+   * Gets the path of a file, relative to the project
+   * @param file The file coverage
+   */
+  private getDisplayPath(file: DULuaCoverageFile): string {
+    return DULuaDiagnostics.getDisplayPath(this.project, file.file);
+  }
+
+  /**
+   * Gets the instrumented line numbers of a file, in order
+   * @param file The file coverage
+   */
+  private static getLineNumbers(file: DULuaCoverageFile): number[] {
+    return Object.keys(file.lines)
+      .map((line) => parseInt(line))
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Counts how many lines were instrumented and how many of them were run
+   * @param files The files being counted
+   */
+  private static count(files: DULuaCoverageFile[]): { total: number, hit: number } {
+    const hits = files.flatMap((file) => Object.values(file.lines));
+    return {
+      total: hits.length,
+      hit: hits.filter((count) => count > 0).length,
+    };
+  }
+
+  /**
+   * Formats a coverage percentage, files without any lines are fully covered
+   * @param hit How many lines were run
+   * @param total How many lines were instrumented
+   */
+  private static formatPercentage(hit: number, total: number): string {
+    return `${(total > 0 ? 100 * hit / total : 100).toFixed(1)}%`;
+  }
+
+  /**
+   * Formats the lines of a file which were never run, grouping sequences of them into ranges (like "3-5, 9")
+   * @param file The file coverage
+   */
+  private static formatMissedLines(file: DULuaCoverageFile): string {
+    const lines = this.getLineNumbers(file);
+    const ranges: [number, number][] = [];
+    lines.forEach((line, idx) => {
+      if (file.lines[line] > 0) return;
+
+      // Lines without any other instrumented line in between are part of the same range
+      const last = ranges[ranges.length - 1];
+      if (last && idx > 0 && lines[idx - 1] == last[1]) {
+        last[1] = line;
+      } else {
+        ranges.push([line, line]);
+      }
+    });
+    return ranges.map(([start, end]) => start == end ? `${start}` : `${start}-${end}`).join(', ');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,178 @@
+import path from "path";
+import { DULuaCompilerResult } from "./DULuaCompiler";
+
+/**
+ * Represents a single file on the dependency graph
+ */
+export type DULuaDependencyGraphNode = {
+  id: string,
+  library: string,
+  file: string | null,
+  size: number,
+  external: boolean,
+  resolved: boolean,
+};
+
+/**
+ * Represents a require between two files on the dependency graph
+ */
+export type DULuaDependencyGraphEdge = {
+  from: string,
+  to: string,
+};
+
+/**
+ * Represents the full dependency graph of a build
+ */
+export type DULuaDependencyGraphData = {
+  project: string,
+  build: string,
+  entrypoint: string,
+  nodes: DULuaDependencyGraphNode[],
+  edges: DULuaDependencyGraphEdge[],
+};
+
+/**
+ * Helper to generate and render the require graph of a build
+ */
+export class DULuaDependencyGraph {
+  /**
+   * Creates the dependency graph from a build result
+   * @param buildResult The compiler output
+   */
+  static fromCompilerResult(buildResult: DULuaCompilerResult): DULuaDependencyGraphData {
+    const nodes: DULuaDependencyGraphNode[] = [];
+
+    // Adds each of the files processed, starting with the entrypoint
+    const sizes: { [id: string]: number } = {
+      [buildResult.entrypoint]: Buffer.byteLength(buildResult.output),
+    };
+    buildResult.preloads.forEach((preload) => sizes[preload.path] = Buffer.byteLength(preload.source));
+    for (const id in buildResult.sources) {
+      const file = buildResult.sources[id];
+      nodes.push({
+        id,
+        library: id.split(':')[0],
+        file: buildResult.project.containsPath(file)
+          ? path.relative(buildResult.project.getProjectDirectory(), file).replace(/\\/g, '/')
+          : file,
+        size: sizes[id] || 0,
+        external: !buildResult.project.containsPath(file),
+        resolved: true,
+      });
+    }
+
+    // Requires we couldn't resolve are left as they are, they can still be available at runtime (like native libraries)
+    buildResult.requires
+      .filter((edge) => !edge.resolved && !nodes.some((node) => node.id == edge.to))
+      .forEach((edge) => nodes.push({
+        id: edge.to,
+        library: edge.to.includes(':') ? edge.to.split(':')[0] : '',
+        file: null,
+        size: 0,
+        external: false,
+        resolved: false,
+      }));
+
+    return {
+      project: buildResult.project.name,
+      build: buildResult.build.name,
+      entrypoint: buildResult.entrypoint,
+      nodes,
+      edges: buildResult.requires.map((edge) => ({
+        from: edge.from,
+        to: edge.to,
+      })),
+    };
+  }
+
+  /**
+   * Formats a byte size into a human-readable string
+   * @param size The size in bytes
+   */
+  static formatSize(size: number): string {
+    return size >= 1024
+      ? `${(size / 1024).toFixed(1)} KB`
+      : `${size} B`;
+  }
+
+  /**
+   * Gets the label shown for a single node
+   * @param node The node being described
+   */
+  private static getNodeDescription(node: DULuaDependencyGraphNode): string {
+    if (!node.resolved) return 'unresolved';
+
+    return [
+      node.library,
+      DULuaDependencyGraph.formatSize(node.size),
+      ...(node.external ? ['external, hashed'] : []),
+    ].join(', ');
+  }
+
+  /**
+   * Renders the graph as a tree, files required more than once are only expanded the first time
+   * @param graph The dependency graph
+   */
+  static toTree(graph: DULuaDependencyGraphData): string {
+    const lines: string[] = [];
+    const visited: Set<string> = new Set();
+
+    const renderNode = (id: string, prefix: string, connector: string, childPrefix: string) => {
+      const node = graph.nodes.find((node) => node.id == id);
+      const description = node ? DULuaDependencyGraph.getNodeDescription(node) : 'unknown';
+
+      // Repeated nodes are not expanded again
+      if (visited.has(id)) {
+        lines.push(`${prefix}${connector}${id} (${description}) (see above)`);
+        return;
+      }
+      visited.add(id);
+      lines.push(`${prefix}${connector}${id} (${description})`);
+
+      // Renders each of the children
+      const children = graph.edges.filter((edge) => edge.from == id);
+      children.forEach((edge, idx) => {
+        const isLast = idx == children.length - 1;
+        renderNode(edge.to, prefix + childPrefix, isLast ? '└── ' : '├── ', isLast ? '    ' : '│   ');
+      });
+    };
+
+    renderNode(graph.entrypoint, '', '', '');
+    return lines.join('\n');
+  }
+
+  /**
+   * Renders the graph in the Graphviz DOT format
+   * @param graph The dependency graph
+   */
+  static toDot(graph: DULuaDependencyGraphData): string {
+    const quote = (value: string) => JSON.stringify(value);
+
+    const lines = [
+      `digraph ${quote(`${graph.project}/${graph.build}`)} {`,
+      `  node [shape=box];`,
+      ...graph.nodes.map((node) => {
+        const attributes = [
+          `label=${quote(`${node.id}\n${DULuaDependencyGraph.getNodeDescription(node)}`)}`,
+          ...(node.id == graph.entrypoint ? ['penwidth=2'] : []),
+          ...(node.external ? ['style=dashed'] : []),
+          ...(!node.resolved ? ['color=gray', 'fontcolor=gray'] : []),
+        ];
+        return `  ${quote(node.id)} [${attributes.join(', ')}];`;
+      }),
+      ...graph.edges.map((edge) => `  ${quote(edge.from)} -> ${quote(edge.to)};`),
+      `}`,
+    ];
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Renders the graph in the JSON format
+   * @param graph The dependency graph
+   */
+  static toJSON(graph: DULuaDependencyGraphData): string {
+    return JSON.stringify(graph, null, 2);
+  }
+}
\ No newline at end of file
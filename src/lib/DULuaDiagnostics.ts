@@ -0,0 +1,351 @@
+import fs from "fs";
+import path from "path";
+import Application from "../Application";
+import Project from "../types/Project";
+import { SimpleMap } from "../types/SimpleMap";
+import { CLI } from "./CLI";
+import ColorScheme from "./ColorScheme";
+import Utils from "./Utils";
+
+/**
+ * The severity of a diagnostic, only errors cause builds to fail
+ */
+export enum DULuaDiagnosticSeverity {
+  Error = 'error',
+  Warning = 'warning',
+}
+
+/**
+ * Represents where a diagnostic happened, all information is optional
+ */
+export type DULuaDiagnosticLocation = {
+  file?: string,
+  line?: number,
+  column?: number,
+};
+
+/**
+ * Represents a single error or warning found during build
+ */
+export type DULuaDiagnostic = DULuaDiagnosticLocation & {
+  severity: DULuaDiagnosticSeverity,
+  message: string,
+  builds: string[],
+};
+
+/**
+ * An error pointing to a certain line (and optionally column) of the file being processed
+ */
+export class DULuaSourceError extends Error {
+  /**
+   * Creates a new error
+   * @param message The error message
+   * @param line The line where the error happened
+   * @param column The column where the error happened
+   */
+  constructor(message: string, public readonly line?: number, public readonly column?: number) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown when a build fails due to errors which were already collected as diagnostics
+ */
+export class DULuaDiagnosticsError extends Error {}
+
+/**
+ * Collects errors and warnings through the entire build process, so they can all be reported at once instead of stopping on the first error
+ */
+export class DULuaDiagnostics {
+  /**
+   * The output formats supported for machine-readable diagnostics
+   */
+  static readonly formats = ['gcc', 'json', 'sarif'];
+
+  /**
+   * All diagnostics reported, in order, the ones happening on multiple builds are only merged when formatting
+   */
+  private reported: DULuaDiagnostic[] = [];
+
+  /**
+   * The build currently being processed, in the target/build syntax
+   */
+  private currentBuild: string | null = null;
+
+  /**
+   * Sets the build currently being processed, any errors reported from now on will be attributed to it
+   * @param build The build name, in the target/build syntax
+   */
+  setCurrentBuild(build: string | null) {
+    this.currentBuild = build;
+  }
+
+  /**
+   * Reports a diagnostic
+   * @param severity The diagnostic severity
+   * @param message The diagnostic message
+   * @param location Where it happened
+   */
+  private add(severity: DULuaDiagnosticSeverity, message: string, location: DULuaDiagnosticLocation) {
+    this.reported.push({
+      ...location,
+      severity,
+      message,
+      builds: this.currentBuild ? [this.currentBuild] : [],
+    });
+  }
+
+  /**
+   * Reports an error
+   * @param message The error message
+   * @param location Where the error happened
+   */
+  error(message: string, location: DULuaDiagnosticLocation = {}) {
+    this.add(DULuaDiagnosticSeverity.Error, message, location);
+  }
+
+  /**
+   * Reports a warning, those are only collected, printing them is up to the caller
+   * @param message The warning message
+   * @param location Where the warning happened
+   */
+  warning(message: string, location: DULuaDiagnosticLocation = {}) {
+    this.add(DULuaDiagnosticSeverity.Warning, message, location);
+  }
+
+  /**
+   * Reports an exception as an error, errors already reported are ignored
+   * @param err The exception caught
+   * @param location Where the error happened, source errors have their own line and column
+   */
+  addException(err: any, location: DULuaDiagnosticLocation = {}) {
+    if (err instanceof DULuaDiagnosticsError) return;
+
+    if (err instanceof DULuaSourceError) {
+      location = {
+        ...location,
+        line: err.line ?? location.line,
+        column: err.column ?? location.column,
+      };
+    }
+
+    this.error(err instanceof Error ? err.message : `${err}`, location);
+  }
+
+  /**
+   * Gets how many errors were reported so far
+   */
+  getErrorCount(): number {
+    return this.reported.filter((entry) => entry.severity == DULuaDiagnosticSeverity.Error).length;
+  }
+
+  /**
+   * Gets all diagnostics, the ones with the same severity, location and message are merged
+   * @param severity Only includes diagnostics of this severity
+   * @param since Only includes diagnostics after this many of them were reported (of the same severity)
+   */
+  getDiagnostics(severity?: DULuaDiagnosticSeverity, since: number = 0): DULuaDiagnostic[] {
+    const diagnostics: DULuaDiagnostic[] = [];
+
+    const entries = this.reported
+      .filter((entry) => !severity || entry.severity == severity)
+      .slice(since);
+    for (const entry of entries) {
+      const existing = diagnostics.find((diagnostic) =>
+        diagnostic.severity == entry.severity
+        && diagnostic.file == entry.file
+        && diagnostic.line == entry.line
+        && diagnostic.column == entry.column
+        && diagnostic.message == entry.message
+      );
+
+      if (existing) {
+        entry.builds.filter((build) => !existing.builds.includes(build)).forEach((build) => existing.builds.push(build));
+      } else {
+        diagnostics.push({
+          ...entry,
+          builds: [...entry.builds],
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Throws an error when any errors were reported, usually at the end of a build step
+   * @param project The current project, used to format file paths
+   * @param since Only considers errors reported after this many errors
+   */
+  throwIfErrors(project: Project, since: number = 0) {
+    if (this.getErrorCount() > since) {
+      throw new DULuaDiagnosticsError(this.format(project, this.getDiagnostics(DULuaDiagnosticSeverity.Error, since)));
+    }
+  }
+
+  /**
+   * Gets the path of a file, relative to the project when possible
+   * @param project The current project
+   * @param file The full path of the file
+   */
+  static getDisplayPath(project: Project, file: string): string {
+    return project.containsPath(file)
+      ? path.relative(project.getProjectDirectory(), file).replace(/\\/g, '/')
+      : file;
+  }
+
+  /**
+   * Formats a list of diagnostics grouped by file, along with the code where they happened
+   * @param project The current project, used to format file paths
+   * @param diagnostics The diagnostics being formatted
+   */
+  format(project: Project, diagnostics: DULuaDiagnostic[]): string {
+    // Groups our diagnostics by file, the ones without a file are kept first
+    const groups: SimpleMap<DULuaDiagnostic[]> = {};
+    for (const diagnostic of diagnostics) {
+      const file = diagnostic.file || '';
+      groups[file] = groups[file] || [];
+      groups[file].push(diagnostic);
+    }
+
+    const lines: string[] = [];
+    for (const file of Object.keys(groups).sort()) {
+      // File header
+      const code = file && fs.existsSync(file) ? fs.readFileSync(file).toString().replace(/\r\n/g, '\n') : null;
+      const indent = file ? '  ' : '';
+      if (lines.length > 0) lines.push('');
+      if (file) {
+        lines.push(ColorScheme.highlight(DULuaDiagnostics.getDisplayPath(project, file)));
+      }
+
+      // Each error, sorted by line, any extra lines on the message are indented
+      for (const diagnostic of groups[file].sort((a, b) => (a.line || 0) - (b.line || 0))) {
+        const position = diagnostic.line
+          ? `line ${diagnostic.line}${diagnostic.column ? `, column ${diagnostic.column}` : ''}: `
+          : '';
+        const builds = diagnostic.builds.length > 0 ? ` (${diagnostic.builds.join(', ')})` : '';
+        const [firstLine, ...extraLines] = diagnostic.message.split('\n');
+        lines.push(`${indent}${position}${firstLine}${builds}`);
+        extraLines.forEach((line) => lines.push(`${indent}  ${line}`));
+
+        // Code frame, when the file is available
+        if (code && diagnostic.line) {
+          lines.push(ColorScheme.code(Utils.createCodeFrame(code, diagnostic.line).replace(/^/gm, `${indent}  `)));
+        }
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Prints all errors, along with a summary
+   * @param project The current project, used to format file paths
+   */
+  print(project: Project) {
+    const errors = this.getDiagnostics(DULuaDiagnosticSeverity.Error);
+    if (errors.length == 0) return;
+
+    CLI.error(`Found ${errors.length} ${errors.length == 1 ? 'error' : 'errors'}:`);
+    CLI.print(this.format(project, errors));
+  }
+
+  /**
+   * Removes any colors and line breaks from a message, for machine-readable formats
+   * @param message The message being cleaned
+   */
+  private static getPlainMessage(message: string): string {
+    return message
+      .replace(/\u001b\[[\d;]*m/g, '')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .join(' ');
+  }
+
+  /**
+   * Converts all diagnostics into the GCC format (file:line:column: severity: message), one per line
+   * @param project The current project, used to format file paths
+   */
+  toGCC(project: Project): string {
+    return this.getDiagnostics().map((diagnostic) => {
+      const location = diagnostic.file
+        ? `${DULuaDiagnostics.getDisplayPath(project, diagnostic.file)}:${diagnostic.line || 1}:${diagnostic.column || 1}`
+        : DULuaDiagnostics.getDisplayPath(project, project.getProjectFile());
+      return `${location}: ${diagnostic.severity}: ${DULuaDiagnostics.getPlainMessage(diagnostic.message)}`;
+    }).join('\n');
+  }
+
+  /**
+   * Converts all diagnostics into a JSON array
+   * @param project The current project, used to format file paths
+   */
+  toJSON(project: Project): string {
+    return JSON.stringify(this.getDiagnostics().map((diagnostic) => ({
+      severity: diagnostic.severity,
+      message: DULuaDiagnostics.getPlainMessage(diagnostic.message),
+      file: diagnostic.file ? DULuaDiagnostics.getDisplayPath(project, diagnostic.file) : null,
+      line: diagnostic.line || null,
+      column: diagnostic.column || null,
+      builds: diagnostic.builds,
+    })), null, 2);
+  }
+
+  /**
+   * Converts all diagnostics into a SARIF 2.1 log
+   * @param project The current project, used to format file paths
+   */
+  toSARIF(project: Project): string {
+    const results = this.getDiagnostics().map((diagnostic) => ({
+      level: diagnostic.severity,
+      message: {
+        text: DULuaDiagnostics.getPlainMessage(diagnostic.message),
+      },
+      ...(diagnostic.file ? {
+        locations: [{
+          physicalLocation: {
+            artifactLocation: {
+              uri: DULuaDiagnostics.getDisplayPath(project, diagnostic.file),
+            },
+            ...(diagnostic.line ? {
+              region: {
+                startLine: diagnostic.line,
+                ...(diagnostic.column ? { startColumn: diagnostic.column } : {}),
+              },
+            } : {}),
+          },
+        }],
+      } : {}),
+      ...(diagnostic.builds.length > 0 ? { properties: { builds: diagnostic.builds } } : {}),
+    }));
+
+    return JSON.stringify({
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: {
+            name: 'du-lua',
+            version: Application.getVersion(),
+            informationUri: 'https://github.com/wolfe-labs/DU-LuaC',
+          },
+        },
+        results,
+      }],
+    }, null, 2);
+  }
+
+  /**
+   * Converts all diagnostics into one of the machine-readable formats
+   * @param project The current project, used to format file paths
+   * @param format The output format (gcc, json or sarif)
+   */
+  toFormat(project: Project, format: string): string {
+    switch (format) {
+      case 'gcc': return this.toGCC(project);
+      case 'json': return this.toJSON(project);
+      case 'sarif': return this.toSARIF(project);
+      default: throw new Error(`Invalid diagnostics format ${ColorScheme.highlight(format)}, valid formats are: ${DULuaDiagnostics.formats.map((format) => ColorScheme.highlight(format)).join(', ')}`);
+    }
+  }
+}
\ No newline at end of file
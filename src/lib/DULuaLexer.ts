@@ -0,0 +1,199 @@
+/**
+ * The types of tokens found in Lua code
+ */
+export enum DULuaTokenType {
+  Whitespace = 'whitespace',
+  Comment = 'comment',
+  Name = 'name',
+  Keyword = 'keyword',
+  Number = 'number',
+  String = 'string',
+  Symbol = 'symbol',
+}
+
+/**
+ * Represents a single token of Lua code
+ */
+export type DULuaToken = {
+  type: DULuaTokenType,
+  value: string,
+  start: number,
+  end: number,
+  line: number,
+};
+
+/**
+ * A tokenizer for Lua 5.3 code, it keeps comments and whitespace so the original code can be rebuilt from the tokens
+ */
+export class DULuaLexer {
+  /**
+   * All reserved words in Lua 5.3
+   */
+  static readonly keywords = [
+    'and', 'break', 'do', 'else', 'elseif', 'end', 'false', 'for', 'function', 'goto', 'if', 'in',
+    'local', 'nil', 'not', 'or', 'repeat', 'return', 'then', 'true', 'until', 'while',
+  ];
+
+  /**
+   * All symbols in Lua 5.3, longest ones first
+   */
+  static readonly symbols = [
+    '...',
+    '..', '==', '~=', '<=', '>=', '<<', '>>', '//', '::',
+    '+', '-', '*', '/', '%', '^', '#', '&', '~', '|', '<', '>', '=',
+    '(', ')', '{', '}', '[', ']', ';', ':', ',', '.',
+  ];
+
+  /**
+   * Splits a piece of Lua code into tokens
+   * @param code The code being tokenized
+   */
+  static tokenize(code: string): DULuaToken[] {
+    const tokens: DULuaToken[] = [];
+    let index = 0;
+    let line = 1;
+
+    // Helpers
+    const isDigit = (char: string) => char >= '0' && char <= '9';
+    const isHexDigit = (char: string) => isDigit(char) || (char >= 'a' && char <= 'f') || (char >= 'A' && char <= 'F');
+    const isNameStart = (char: string) => (char >= 'a' && char <= 'z') || (char >= 'A' && char <= 'Z') || char == '_';
+    const fail = (message: string) => {
+      throw new Error(`${message} at line ${line}`);
+    };
+
+    // Gets the level of a long bracket starting at a certain position, or null if there's none
+    const getLongBracketLevel = (position: number): number | null => {
+      if (code[position] != '[') return null;
+      let level = 0;
+      while (code[position + 1 + level] == '=') level++;
+      return code[position + 1 + level] == '[' ? level : null;
+    };
+
+    // Finds the end of a long bracket with a certain level
+    const readLongBracket = (position: number, level: number, what: string): number => {
+      const closing = `]${'='.repeat(level)}]`;
+      const end = code.indexOf(closing, position + level + 2);
+      if (end < 0) fail(`Unfinished long ${what}`);
+      return end + closing.length;
+    };
+
+    // Finds the end of a quoted string
+    const readQuotedString = (position: number): number => {
+      const quote = code[position];
+      let current = position + 1;
+      while (current < code.length && code[current] != quote) {
+        if (code[current] == '\n') fail('Unfinished string');
+        if (code[current] == '\\') {
+          // Escapes are skipped entirely, a "\z" can also skip line breaks
+          current++;
+          if (code[current] == 'z') {
+            current++;
+            while (current < code.length && code[current].trim().length == 0) current++;
+            continue;
+          }
+        }
+        current++;
+      }
+      if (current >= code.length) fail('Unfinished string');
+      return current + 1;
+    };
+
+    // Finds the end of a number, the same way Lua does it
+    const readNumber = (position: number): number => {
+      let current = position;
+      let exponent = 'Ee';
+      if (code[current] == '0' && 'xX'.includes(code[current + 1] || ' ')) {
+        current += 2;
+        exponent = 'Pp';
+      }
+      while (current < code.length) {
+        if (exponent.includes(code[current])) {
+          current++;
+          if ('+-'.includes(code[current] || ' ')) current++;
+        } else if (isHexDigit(code[current]) || code[current] == '.') {
+          current++;
+        } else {
+          break;
+        }
+      }
+      return current;
+    };
+
+    while (index < code.length) {
+      const char = code[index];
+      const start = index;
+      let type: DULuaTokenType;
+
+      if (char.trim().length == 0) {
+        // Whitespace
+        type = DULuaTokenType.Whitespace;
+        while (index < code.length && code[index].trim().length == 0) index++;
+      } else if (code.startsWith('--', index)) {
+        // Comments, either long or single-line
+        type = DULuaTokenType.Comment;
+        const level = getLongBracketLevel(index + 2);
+        if (null !== level) {
+          index = readLongBracket(index + 2, level, 'comment');
+        } else {
+          const lineEnd = code.indexOf('\n', index);
+          index = lineEnd < 0 ? code.length : lineEnd;
+        }
+      } else if (isNameStart(char)) {
+        // Names and keywords
+        while (index < code.length && (isNameStart(code[index]) || isDigit(code[index]))) index++;
+        type = DULuaLexer.keywords.includes(code.substring(start, index))
+          ? DULuaTokenType.Keyword
+          : DULuaTokenType.Name;
+      } else if (isDigit(char) || (char == '.' && isDigit(code[index + 1] || ''))) {
+        // Numbers
+        type = DULuaTokenType.Number;
+        index = readNumber(index);
+      } else if (char == '"' || char == '\'') {
+        // Quoted strings
+        type = DULuaTokenType.String;
+        index = readQuotedString(index);
+      } else if (null !== getLongBracketLevel(index)) {
+        // Long strings
+        type = DULuaTokenType.String;
+        index = readLongBracket(index, getLongBracketLevel(index)!, 'string');
+      } else {
+        // Symbols
+        type = DULuaTokenType.Symbol;
+        const symbol = DULuaLexer.symbols.find((symbol) => code.startsWith(symbol, index));
+        if (!symbol) fail(`Unexpected character "${char}"`);
+        index += symbol!.length;
+      }
+
+      // Adds our token
+      const value = code.substring(start, index);
+      tokens.push({ type, value, start, end: index, line });
+      line += value.split('\n').length - 1;
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Splits a piece of Lua code into tokens, excluding any whitespace and comments
+   * @param code The code being tokenized
+   */
+  static getCodeTokens(code: string): DULuaToken[] {
+    return this.tokenize(code).filter((token) => token.type != DULuaTokenType.Whitespace && token.type != DULuaTokenType.Comment);
+  }
+
+  /**
+   * Checks if two pieces of code have the exact same tokens, ignoring whitespace and comments
+   * @param a The first piece of code
+   * @param b The second piece of code
+   */
+  static isEquivalent(a: string, b: string): boolean {
+    try {
+      const tokensA = this.getCodeTokens(a);
+      const tokensB = this.getCodeTokens(b);
+      return tokensA.length == tokensB.length
+        && tokensA.every((token, idx) => token.type == tokensB[idx].type && token.value == tokensB[idx].value);
+    } catch (err) {
+      return false;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,290 @@
+/**
+ * Represents where a line of generated code came from
+ */
+export type DULuaSourceLocation = {
+  source: string,
+  line: number,
+  approximate?: boolean,
+};
+
+/**
+ * Represents a range of lines, both ends included
+ */
+export type DULuaLineRange = {
+  first: number,
+  last: number,
+};
+
+/**
+ * Represents the result of a transformation, along with the input lines making up each of its output lines
+ */
+export type DULuaCodeTransform = {
+  code: string,
+  lines: DULuaLineRange[],
+};
+
+/**
+ * Represents a part of the code being replaced
+ */
+export type DULuaCodeReplacement = {
+  start: number,
+  end: number,
+  replacement: string,
+};
+
+/**
+ * Represents a piece of Lua code along with the original location of each of its lines
+ */
+export class DULuaMappedCode {
+  /**
+   * Creates a new piece of mapped code
+   * @param code The actual code
+   * @param lines The original location of each line of the code, null for generated lines
+   */
+  private constructor(
+    readonly code: string,
+    readonly lines: (DULuaSourceLocation | null)[],
+  ) {}
+
+  /**
+   * Creates mapped code from a source file, where each line maps to itself
+   * @param code The source code
+   * @param source The source name, in project:file syntax
+   */
+  static fromSource(code: string, source: string): DULuaMappedCode {
+    return new this(
+      code,
+      code.split('\n').map((_, idx) => ({ source, line: idx + 1 })),
+    );
+  }
+
+  /**
+   * Creates mapped code from compiler-generated code, which doesn't map to any source
+   * @param code The generated code
+   */
+  static fromGenerated(code: string): DULuaMappedCode {
+    return new this(
+      code,
+      code.split('\n').map(() => null),
+    );
+  }
+
+  /**
+   * Joins multiple pieces of code, same as Array.join
+   * @param parts The pieces of code being joined, plain strings are considered generated code
+   * @param separator The separator between each of the pieces
+   */
+  static join(parts: (DULuaMappedCode | string)[], separator: string = '\n'): DULuaMappedCode {
+    // Converts everything into mapped code
+    const mappedParts = parts.map((part) => part instanceof DULuaMappedCode ? part : this.fromGenerated(part));
+    const mappedSeparator = this.fromGenerated(separator);
+
+    // Concatenates each of the parts
+    return mappedParts.reduce((result, part, idx) => {
+      return idx == 0
+        ? part
+        : result.concat(mappedSeparator).concat(part);
+    }, this.fromGenerated(''));
+  }
+
+  /**
+   * Appends another piece of code directly after this one
+   * @param other The code being appended
+   */
+  concat(other: DULuaMappedCode): DULuaMappedCode {
+    // The last line of this code is merged with the first line of the other code
+    const lastLine = this.lines[this.lines.length - 1];
+    const lastLineCode = this.code.substring(this.code.lastIndexOf('\n') + 1);
+    const mergedLine = lastLineCode.trim().length > 0
+      ? lastLine
+      : other.lines[0];
+
+    return new DULuaMappedCode(
+      this.code + other.code,
+      [
+        ...this.lines.slice(0, -1),
+        mergedLine,
+        ...other.lines.slice(1),
+      ],
+    );
+  }
+
+  /**
+   * Gets the number of lines in this code
+   */
+  getLineCount(): number {
+    return this.lines.length;
+  }
+
+  /**
+   * Gets the original location of a line
+   * @param line The line number, starting at 1
+   */
+  getLocation(line: number): DULuaSourceLocation | null {
+    return this.lines[line - 1] || null;
+  }
+
+  /**
+   * Replaces a pattern in the code, same as String.replace, keeping track of where each line came from
+   * @param search The expression being searched
+   * @param replacer The function generating the replacement for each match
+   */
+  replace(search: RegExp, replacer: (match: string, ...args: any[]) => string): DULuaMappedCode {
+    const ranges: DULuaCodeReplacement[] = [];
+    this.code.replace(search, (match: string, ...args: any[]) => {
+      // The offset is the last numeric argument, it might be followed by named groups
+      const offset: number = typeof args[args.length - 1] == 'object'
+        ? args[args.length - 3]
+        : args[args.length - 2];
+
+      ranges.push({
+        start: offset,
+        end: offset + match.length,
+        replacement: replacer(match, ...args),
+      });
+      return match;
+    });
+
+    return this.replaceRanges(ranges);
+  }
+
+  /**
+   * Replaces parts of the code, keeping track of where each line came from
+   * @param replacements The parts being replaced, sorted and not overlapping
+   */
+  replaceRanges(replacements: DULuaCodeReplacement[]): DULuaMappedCode {
+    const input = this.code;
+
+    // Gets the starting index for each of the input lines
+    const lineStarts = [0];
+    for (let idx = 0; idx < input.length; idx++) {
+      if (input[idx] == '\n') lineStarts.push(idx + 1);
+    }
+
+    // Finds the input line for a certain index
+    const getLineAt = (index: number): number => {
+      let low = 0, high = lineStarts.length - 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= index) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return low;
+    };
+
+    // Here we keep track of the input line each output character came from
+    const output: string[] = [];
+    const origins: number[] = [];
+    const copyInput = (start: number, end: number) => {
+      output.push(input.substring(start, end));
+      let line = getLineAt(start);
+      for (let idx = start; idx < end; idx++) {
+        origins.push(line);
+        if (input[idx] == '\n') line++;
+      }
+    };
+
+    // Does the actual replacement
+    let lastIndex = 0;
+    for (const { start, end, replacement } of replacements) {
+      // Copies anything before our match
+      copyInput(lastIndex, start);
+
+      // Lines on the replacement will map to the lines of the original code
+      const startLine = getLineAt(start);
+      const endLine = getLineAt(end);
+      let line = startLine;
+      for (let idx = 0; idx < replacement.length; idx++) {
+        origins.push(Math.min(line, endLine));
+        if (replacement[idx] == '\n') line++;
+      }
+      output.push(replacement);
+
+      // Moves forward
+      lastIndex = end;
+    }
+
+    // Copies anything left
+    copyInput(lastIndex, input.length);
+
+    // Now we can map each output line, using its first non-whitespace character (or its first character for empty lines)
+    const code = output.join('');
+    const lines: (DULuaSourceLocation | null)[] = [];
+    let lineStart = 0;
+    let contentStart: number | null = null;
+    for (let idx = 0; idx <= code.length; idx++) {
+      if (idx == code.length || code[idx] == '\n') {
+        const origin = origins[contentStart ?? lineStart];
+        lines.push(undefined === origin ? null : this.lines[origin] || null);
+        lineStart = idx + 1;
+        contentStart = null;
+      } else if (null === contentStart && code[idx].trim().length > 0) {
+        contentStart = idx;
+      }
+    }
+
+    return new DULuaMappedCode(code, lines);
+  }
+
+  /**
+   * Applies a transformation that merges lines (such as minification), output lines made of multiple input lines point to the first of them and are approximate
+   * @param transformer The transformation being applied, reporting which input lines make up each output line
+   */
+  transform(transformer: (code: string) => DULuaCodeTransform): DULuaMappedCode {
+    const result = transformer(this.code);
+
+    const lines = result.code.split('\n').map((_, idx) => {
+      const range = result.lines[idx];
+      if (!range) return null;
+
+      // Generated lines are skipped, if anything else is left we also check if it all comes from the same place
+      const locations = this.lines
+        .slice(range.first - 1, range.last)
+        .filter((location): location is DULuaSourceLocation => !!location);
+      if (locations.length == 0) return null;
+
+      const isExact = locations.every((location) => location.source == locations[0].source && location.line == locations[0].line && !location.approximate);
+      return isExact ? locations[0] : { ...locations[0], approximate: true };
+    });
+
+    return new DULuaMappedCode(result.code, lines);
+  }
+
+  /**
+   * Keeps only the lines matching a certain condition
+   * @param filter The function that decides whether a line should be kept
+   */
+  filterLines(filter: (line: string) => boolean): DULuaMappedCode {
+    const code: string[] = [];
+    const lines: (DULuaSourceLocation | null)[] = [];
+
+    this.code.split('\n').forEach((line, idx) => {
+      if (filter(line)) {
+        code.push(line);
+        lines.push(this.lines[idx]);
+      }
+    });
+
+    return new DULuaMappedCode(code.join('\n'), lines);
+  }
+
+  /**
+   * Removes whitespace from both ends of the code, same as String.trim
+   */
+  trim(): DULuaMappedCode {
+    const leading = this.code.length - this.code.trimStart().length;
+    const trailing = this.code.trimStart().length - this.code.trim().length;
+
+    // Counts how many lines were removed on each end
+    const removedLeading = this.code.substring(0, leading).split('\n').length - 1;
+    const removedTrailing = this.code.substring(this.code.length - trailing).split('\n').length - 1;
+
+    return new DULuaMappedCode(
+      this.code.trim(),
+      this.lines.slice(removedLeading, this.lines.length - removedTrailing),
+    );
+  }
+}
\ No newline at end of file
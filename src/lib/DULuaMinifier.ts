@@ -0,0 +1,217 @@
+import luaparse from "luaparse";
+import { SimpleMap } from "../types/SimpleMap";
+import { DULuaCompilerExport } from "./DULuaCompilerExport";
+import { DULuaLexer, DULuaToken, DULuaTokenType } from "./DULuaLexer";
+import { DULuaLineRange } from "./DULuaMappedCode";
+import { DULuaScopeAnalyzer, DULuaScopeVariable } from "./DULuaScopeAnalyzer";
+
+/**
+ * Options for minifying code
+ */
+export type DULuaMinifierOptions = {
+  mangleFields?: boolean,
+};
+
+/**
+ * Represents a local table which had its fields renamed
+ */
+export type DULuaMinifierMangledTable = {
+  table: string,
+  line: number,
+  fields: SimpleMap<string>,
+};
+
+/**
+ * Represents the minified code, along with any tables which had their fields renamed and the input lines making up each output line
+ */
+export type DULuaMinifierResult = {
+  code: string,
+  tables: DULuaMinifierMangledTable[],
+  lines: DULuaLineRange[],
+};
+
+/**
+ * Minifies Lua 5.3 code by renaming local variables and removing comments, indentation, blank lines and any whitespace that isn't needed to separate tokens
+ */
+export class DULuaMinifier {
+  /**
+   * Characters that can start a variable name
+   */
+  private static readonly nameStart = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ_';
+
+  /**
+   * Characters that can be used on the rest of a variable name
+   */
+  private static readonly namePart = `${DULuaMinifier.nameStart}0123456789`;
+
+  /**
+   * Minifies a piece of Lua code, any --export statements are kept on their own lines along with their variable names
+   * @param code The code being minified
+   */
+  static minify(code: string): string {
+    return this.process(code).code;
+  }
+
+  /**
+   * Minifies a piece of Lua code, optionally renaming the fields of local tables which are only ever accessed directly
+   * @param code The code being minified
+   * @param options The minification options
+   */
+  static process(code: string, options: DULuaMinifierOptions = {}): DULuaMinifierResult {
+    const tokens = DULuaLexer.tokenize(code);
+
+    // Lines with --export statements are kept as they are, so the game can still find them
+    const isExport = (token: DULuaToken) => token.type == DULuaTokenType.Comment && DULuaCompilerExport.codeHasExportStatement(token.value);
+    const exportLines = new Set(tokens.filter(isExport).map((token) => token.line));
+
+    // Gets the new name of each of the local variables (and fields)
+    const { renames, tables } = this.getRenames(code, exportLines, options.mangleFields || false);
+
+    const output: string[] = [];
+    const lines: DULuaLineRange[] = [];
+    let previous: DULuaToken | null = null;
+    let previousEndLine = 0;
+    let isNewLine = true;
+    for (const token of tokens) {
+      // Skips whitespace and comments
+      if (token.type == DULuaTokenType.Whitespace) continue;
+      if (token.type == DULuaTokenType.Comment && !isExport(token)) continue;
+
+      // Applies renames
+      const current = {
+        ...token,
+        value: renames.get(token.start) ?? token.value,
+      };
+
+      // Adds any separators needed, line breaks are kept (blank lines aren't) so errors can be traced back to their original lines
+      if (previous) {
+        if (previous.type == DULuaTokenType.Comment || previousEndLine < current.line) {
+          output.push('\n');
+          isNewLine = true;
+        } else if (this.needsSeparator(previous, current)) {
+          output.push(' ');
+        }
+      }
+
+      // Keeps track of the input lines on each output line, tokens spanning multiple lines (such as long strings) are kept as they are
+      current.value.split('\n').forEach((_, idx) => {
+        if (isNewLine || idx > 0) {
+          lines.push({ first: token.line + idx, last: token.line + idx });
+        } else {
+          lines[lines.length - 1].last = token.line + idx;
+        }
+        isNewLine = false;
+      });
+
+      output.push(current.value);
+      previous = current;
+      previousEndLine = token.line + token.value.split('\n').length - 1;
+    }
+
+    return {
+      code: output.join(''),
+      tables,
+      lines,
+    };
+  }
+
+  /**
+   * Checks if two tokens need whitespace between them, that is, if they would be read differently when put together
+   * @param previous The first token
+   * @param next The token right after it
+   */
+  private static needsSeparator(previous: DULuaToken, next: DULuaToken): boolean {
+    // Strings are always delimited, except when a "[" is followed by a long string
+    if (previous.type == DULuaTokenType.String) return false;
+    if (next.type == DULuaTokenType.String && next.value[0] != '[') return false;
+
+    // Otherwise we check if they still tokenize the same way
+    try {
+      const tokens = DULuaLexer.tokenize(previous.value + next.value);
+      return tokens.length != 2 || tokens[0].value != previous.value || tokens[1].value != next.value;
+    } catch (err) {
+      return true;
+    }
+  }
+
+  /**
+   * Generates a short variable name from a number
+   * @param index The name number, zero is "a"
+   */
+  static getName(index: number): string {
+    let name = this.nameStart[index % this.nameStart.length];
+    index = Math.floor(index / this.nameStart.length);
+    while (index > 0) {
+      index--;
+      name += this.namePart[index % this.namePart.length];
+      index = Math.floor(index / this.namePart.length);
+    }
+    return name;
+  }
+
+  /**
+   * Finds all local variables in a piece of code and picks a new, shorter, name for each of them
+   * @param code The code being minified
+   * @param fixedLines Lines where variables must keep their names
+   * @param mangleFields Should fields of tables that never escape their variable be renamed too?
+   * @returns The new name of each identifier, indexed by its position on the code, along with the tables which had their fields renamed
+   */
+  private static getRenames(code: string, fixedLines: Set<number>, mangleFields: boolean): { renames: Map<number, string>, tables: DULuaMinifierMangledTable[] } {
+    const ast = luaparse.parse(code, { locations: true, ranges: true, comments: false, luaVersion: '5.3' });
+    const { variables, globals, usesEnvironment } = DULuaScopeAnalyzer.analyze(ast, fixedLines);
+
+    // Renaming isn't safe when the environment is changed manually
+    const renames: Map<number, string> = new Map();
+    const tables: DULuaMinifierMangledTable[] = [];
+    if (usesEnvironment) return { renames, tables };
+
+    // Names used by globals, keywords and fixed variables are never used, since they could be shadowed
+    const reserved = new Set([
+      ...DULuaLexer.keywords,
+      ...globals,
+      ...variables.filter((variable) => variable.fixed).map((variable) => variable.name),
+    ]);
+
+    // Picks the shortest name not used by any other variable visible at the time each variable is declared
+    const newNames: Map<DULuaScopeVariable, string> = new Map();
+    for (const variable of variables) {
+      if (variable.fixed) {
+        newNames.set(variable, variable.name);
+        continue;
+      }
+
+      const taken = new Set(variable.visible.map((other) => newNames.get(other)));
+      let index = 0;
+      let name = this.getName(index);
+      while (reserved.has(name) || taken.has(name)) {
+        name = this.getName(++index);
+      }
+      newNames.set(variable, name);
+
+      variable.positions.forEach((position) => renames.set(position, name));
+    }
+
+    // Renames the fields of tables that never escape their variables, the most used ones get the shortest names
+    if (mangleFields) {
+      for (const variable of variables.filter((variable) => variable.init?.type == 'TableConstructorExpression' && variable.escapes.length == 0 && !variable.hasComputedKeys && !variable.fixed)) {
+        const fields: SimpleMap<string> = {};
+        const sortedFields = [...variable.fields.entries()].sort((a, b) => b[1].length - a[1].length);
+
+        let index = 0;
+        for (const [field, positions] of sortedFields) {
+          let name = this.getName(index++);
+          while (DULuaLexer.keywords.includes(name)) name = this.getName(index++);
+
+          fields[field] = name;
+          positions.forEach((position) => renames.set(position, name));
+        }
+
+        if (sortedFields.length > 0) {
+          tables.push({ table: variable.name, line: variable.line, fields });
+        }
+      }
+    }
+
+    return { renames, tables };
+  }
+}
\ No newline at end of file
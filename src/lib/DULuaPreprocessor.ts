@@ -0,0 +1,331 @@
+import { CompilerVariable, CompilerVariableSet } from "../types/CompilerVariable";
+import ColorScheme from "./ColorScheme";
+import { DULuaSourceError } from "./DULuaDiagnostics";
+
+/**
+ * Represents a value used when evaluating directive expressions
+ */
+type DULuaPreprocessorValue = CompilerVariable | null;
+
+/**
+ * Represents the result of processing a piece of code
+ */
+export type DULuaPreprocessorResult = {
+  code: string,
+  variables: string[],
+};
+
+/**
+ * Represents a block of conditional code (@if, @ifdef or @ifndef, along with any @elseif and @else)
+ */
+type DULuaPreprocessorBlock = {
+  directive: string,
+  line: number,
+  isActive: boolean,
+  isParentActive: boolean,
+  hasMatched: boolean,
+  hasElse: boolean,
+};
+
+/**
+ * Handles the preprocessor directives (---@if, ---@elseif, ---@else, ---@end, ---@ifdef and ---@ifndef) on a piece of code
+ */
+export class DULuaPreprocessor {
+  /**
+   * Expression used to find directives, any other ---@ annotations are left alone
+   */
+  private static readonly directiveRegex = /^\s*---@(if|elseif|else|end|ifdef|ifndef)(?:\s+(.*?))?\s*$/;
+
+  /**
+   * Expression used to split a directive expression into tokens
+   */
+  private static readonly tokenRegex = /\s*(==|~=|<=|>=|<|>|\(|\)|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|-?\d+(?:\.\d+)?|[A-Za-z_][\w.]*|\S)/g;
+
+  /**
+   * The tokens of the expression currently being evaluated
+   */
+  private tokens: string[] = [];
+
+  /**
+   * The variables referenced by the directives, used when caching
+   */
+  private referencedVariables: Set<string> = new Set();
+
+  /**
+   * Creates a new preprocessor
+   * @param variables The compiler variables available
+   */
+  private constructor(
+    private variables: CompilerVariableSet,
+  ) {}
+
+  /**
+   * Processes all directives on a piece of code, removed lines are replaced with empty ones, so line numbers are kept intact
+   * @param sourceCode The Lua source-code being processed
+   * @param variables The compiler variables available
+   */
+  static process(sourceCode: string, variables: CompilerVariableSet): DULuaPreprocessorResult {
+    const preprocessor = new this(variables);
+    const code = preprocessor.processLines(sourceCode);
+
+    return {
+      code,
+      variables: [...preprocessor.referencedVariables],
+    };
+  }
+
+  /**
+   * Creates an error pointing to a certain line
+   * @param line The line where the error happened
+   * @param message The error message
+   */
+  private createError(line: number, message: string): Error {
+    return new DULuaSourceError(`Error processing directives: ${message}`, line);
+  }
+
+  /**
+   * Processes each of the lines of code
+   * @param sourceCode The Lua source-code being processed
+   */
+  private processLines(sourceCode: string): string {
+    const blocks: DULuaPreprocessorBlock[] = [];
+    const isActive = () => blocks.length == 0 || blocks[blocks.length - 1].isActive;
+
+    const lines = sourceCode.split('\n').map((line, idx) => {
+      const lineNumber = idx + 1;
+
+      // Regular lines are only kept when inside active blocks
+      const match = DULuaPreprocessor.directiveRegex.exec(line);
+      if (!match) {
+        return isActive() ? line : '';
+      }
+
+      // Handles each of the directives
+      const [, directive, expression] = match;
+      const current = blocks[blocks.length - 1];
+      switch (directive) {
+        case 'if':
+        case 'ifdef':
+        case 'ifndef': {
+          const isParentActive = isActive();
+          const result = isParentActive && this.evaluateCondition(directive, expression, lineNumber);
+          blocks.push({
+            directive,
+            line: lineNumber,
+            isActive: result,
+            isParentActive,
+            hasMatched: result,
+            hasElse: false,
+          });
+          break;
+        }
+        case 'elseif': {
+          if (!current) throw this.createError(lineNumber, `Found ${ColorScheme.code('---@elseif')} without a matching ${ColorScheme.code('---@if')}`);
+          if (current.hasElse) throw this.createError(lineNumber, `Found ${ColorScheme.code('---@elseif')} after ${ColorScheme.code('---@else')}`);
+          const result = current.isParentActive && !current.hasMatched && this.evaluateCondition('if', expression, lineNumber);
+          current.isActive = result;
+          current.hasMatched = current.hasMatched || result;
+          break;
+        }
+        case 'else': {
+          if (!current) throw this.createError(lineNumber, `Found ${ColorScheme.code('---@else')} without a matching ${ColorScheme.code('---@if')}`);
+          if (current.hasElse) throw this.createError(lineNumber, `Found more than one ${ColorScheme.code('---@else')} on the same block`);
+          current.isActive = current.isParentActive && !current.hasMatched;
+          current.hasMatched = true;
+          current.hasElse = true;
+          break;
+        }
+        case 'end': {
+          if (!current) throw this.createError(lineNumber, `Found ${ColorScheme.code('---@end')} without a matching ${ColorScheme.code('---@if')}`);
+          blocks.pop();
+          break;
+        }
+      }
+
+      // The directive itself becomes an empty line
+      return '';
+    });
+
+    // Any blocks left open are errors
+    if (blocks.length > 0) {
+      const block = blocks[blocks.length - 1];
+      throw this.createError(block.line, `Unterminated ${ColorScheme.code(`---@${block.directive}`)} block, missing ${ColorScheme.code('---@end')}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Evaluates the condition for a directive
+   * @param directive The directive name (if, ifdef or ifndef)
+   * @param expression The directive expression
+   * @param line The line where the directive is
+   */
+  private evaluateCondition(directive: string, expression: string | undefined, line: number): boolean {
+    // All directives require an expression
+    if (!expression) {
+      throw this.createError(line, `Missing condition for ${ColorScheme.code(`---@${directive}`)}`);
+    }
+
+    // Handles @ifdef and @ifndef
+    if (directive != 'if') {
+      if (!/^[A-Za-z_][\w.]*$/.test(expression)) {
+        throw this.createError(line, `Invalid variable name ${ColorScheme.highlight(expression)} for ${ColorScheme.code(`---@${directive}`)}`);
+      }
+      this.referencedVariables.add(expression);
+      const isDefined = undefined !== this.variables[expression];
+      return directive == 'ifdef' ? isDefined : !isDefined;
+    }
+
+    // Handles the legacy "---@if name value" syntax, the value can't start with an operator (or whitespace, so the separator can't backtrack into it)
+    expression = expression.trim();
+    const legacy = /^([A-Za-z_][\w.]*)\s+(?![\s=~<>]|and\b|or\b)(.+)$/.exec(expression);
+    if (legacy && legacy[1] != 'not') {
+      let value: DULuaPreprocessorValue = legacy[2];
+      try {
+        value = JSON.parse(legacy[2]);
+      } catch (ex) {
+        // Nothing necessary
+      }
+      return this.getVariable(legacy[1]) === value;
+    }
+
+    // Parses and evaluates the expression
+    try {
+      this.tokens = [];
+      let match: RegExpExecArray | null;
+      const tokenRegex = new RegExp(DULuaPreprocessor.tokenRegex);
+      while ((match = tokenRegex.exec(expression))) {
+        this.tokens.push(match[1]);
+      }
+
+      const result = this.parseOr();
+      if (this.tokens.length > 0) {
+        throw new Error(`Unexpected ${ColorScheme.highlight(this.tokens[0])}`);
+      }
+
+      return DULuaPreprocessor.isTruthy(result);
+    } catch (err) {
+      throw this.createError(line, `Invalid expression ${ColorScheme.code(expression)}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  /**
+   * Gets the value of a compiler variable, or null if it's not defined
+   * @param name The variable name
+   */
+  private getVariable(name: string): DULuaPreprocessorValue {
+    this.referencedVariables.add(name);
+    return undefined !== this.variables[name] ? this.variables[name] : null;
+  }
+
+  /**
+   * Checks if a value is considered true, same as in Lua (only nil and false are false)
+   * @param value The value being checked
+   */
+  private static isTruthy(value: DULuaPreprocessorValue): boolean {
+    return null !== value && false !== value;
+  }
+
+  /**
+   * Parses an "or" expression
+   */
+  private parseOr(): DULuaPreprocessorValue {
+    let left = this.parseAnd();
+    while (this.tokens[0] == 'or') {
+      this.tokens.shift();
+      const right = this.parseAnd();
+      left = DULuaPreprocessor.isTruthy(left) ? left : right;
+    }
+    return left;
+  }
+
+  /**
+   * Parses an "and" expression
+   */
+  private parseAnd(): DULuaPreprocessorValue {
+    let left = this.parseNot();
+    while (this.tokens[0] == 'and') {
+      this.tokens.shift();
+      const right = this.parseNot();
+      left = DULuaPreprocessor.isTruthy(left) ? right : left;
+    }
+    return left;
+  }
+
+  /**
+   * Parses a "not" expression
+   */
+  private parseNot(): DULuaPreprocessorValue {
+    if (this.tokens[0] == 'not') {
+      this.tokens.shift();
+      return !DULuaPreprocessor.isTruthy(this.parseNot());
+    }
+    return this.parseComparison();
+  }
+
+  /**
+   * Parses a comparison (==, ~=, <, >, <= and >=)
+   */
+  private parseComparison(): DULuaPreprocessorValue {
+    const left = this.parseValue();
+    const operator = this.tokens[0];
+    if (!['==', '~=', '<', '>', '<=', '>='].includes(operator)) {
+      return left;
+    }
+    this.tokens.shift();
+    const right = this.parseValue();
+
+    // Equality works for any values, same as in Lua values of different types are never equal
+    if (operator == '==') return left === right;
+    if (operator == '~=') return left !== right;
+
+    // Ordering only works between numbers or between strings
+    if (typeof left != typeof right || !['number', 'string'].includes(typeof left)) {
+      throw new Error(`Can't compare ${left === null ? 'nil' : typeof left} with ${right === null ? 'nil' : typeof right}`);
+    }
+    switch (operator) {
+      case '<': return left! < right!;
+      case '>': return left! > right!;
+      case '<=': return left! <= right!;
+      default: return left! >= right!;
+    }
+  }
+
+  /**
+   * Parses a single value (literals, variables and parenthesis)
+   */
+  private parseValue(): DULuaPreprocessorValue {
+    const token = this.tokens.shift();
+
+    // Handles end of expression
+    if (undefined === token) {
+      throw new Error(`Unexpected end of expression`);
+    }
+
+    // Parenthesis
+    if (token == '(') {
+      const value = this.parseOr();
+      if (this.tokens.shift() != ')') {
+        throw new Error(`Missing ${ColorScheme.highlight(')')}`);
+      }
+      return value;
+    }
+
+    // Literals
+    if (token == 'true') return true;
+    if (token == 'false') return false;
+    if (token == 'nil') return null;
+    if (/^-?\d/.test(token)) return parseFloat(token);
+    if (/^["']/.test(token)) {
+      return token.substring(1, token.length - 1).replace(/\\(.)/g, '$1');
+    }
+
+    // Variables
+    if (/^[A-Za-z_]/.test(token) && !['and', 'or', 'not'].includes(token)) {
+      return this.getVariable(token);
+    }
+
+    throw new Error(`Unexpected ${ColorScheme.highlight(token)}`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,253 @@
+import luaparse from "luaparse";
+
+/**
+ * Represents a local variable, along with everywhere it's used
+ */
+export type DULuaScopeVariable = {
+  name: string,
+  fixed: boolean,
+  visible: DULuaScopeVariable[],
+  positions: number[],
+  line: number,
+  init: any | null,
+  escapes: number[],
+  hasComputedKeys: boolean,
+  fields: Map<string, number[]>,
+};
+
+/**
+ * Represents all variables found in a piece of code
+ */
+export type DULuaScopeAnalysis = {
+  variables: DULuaScopeVariable[],
+  globals: Set<string>,
+  usesEnvironment: boolean,
+};
+
+/**
+ * Represents a block of code where local variables are declared
+ */
+type DULuaScope = {
+  parent: DULuaScope | null,
+  variables: DULuaScopeVariable[],
+};
+
+/**
+ * Finds all local variables in a syntax tree, along with which identifiers point to each of them and which fields are accessed on them
+ */
+export class DULuaScopeAnalyzer {
+  /**
+   * Analyzes a syntax tree
+   * @param ast The syntax tree, parsed with ranges and locations
+   * @param fixedLines Lines where variables are marked as fixed, since they must keep their names
+   */
+  static analyze(ast: luaparse.Chunk, fixedLines: Set<number> = new Set()): DULuaScopeAnalysis {
+    // Here we keep track of everything we find
+    const variables: DULuaScopeVariable[] = [];
+    const globals: Set<string> = new Set();
+    let scope: DULuaScope = { parent: null, variables: [] };
+    let usesEnvironment = false;
+
+    // Scope helpers
+    const openScope = () => {
+      scope = { parent: scope, variables: [] };
+    };
+    const closeScope = () => {
+      scope = scope.parent!;
+    };
+
+    // Declares a new local variable, implicit ones (like "self") have no position
+    const declare = (name: string, position: number | null, line: number, fixed: boolean): DULuaScopeVariable => {
+      const visible: DULuaScopeVariable[] = [];
+      for (let current: DULuaScope | null = scope; current; current = current.parent) {
+        visible.push(...current.variables);
+      }
+
+      const variable: DULuaScopeVariable = {
+        name,
+        fixed,
+        visible,
+        positions: null === position ? [] : [position],
+        line,
+        init: null,
+        escapes: [],
+        hasComputedKeys: false,
+        fields: new Map(),
+      };
+      scope.variables.push(variable);
+      variables.push(variable);
+      usesEnvironment = usesEnvironment || name == '_ENV';
+      return variable;
+    };
+    const declareIdentifier = (identifier: any) => declare(identifier.name, identifier.range[0], identifier.loc.start.line, fixedLines.has(identifier.loc.start.line));
+
+    // Finds which variable an identifier points to, the last declaration wins
+    const resolve = (identifier: any): DULuaScopeVariable | null => {
+      usesEnvironment = usesEnvironment || identifier.name == '_ENV';
+      for (let current: DULuaScope | null = scope; current; current = current.parent) {
+        for (let idx = current.variables.length - 1; idx >= 0; idx--) {
+          if (current.variables[idx].name == identifier.name) {
+            current.variables[idx].positions.push(identifier.range[0]);
+            return current.variables[idx];
+          }
+        }
+      }
+      globals.add(identifier.name);
+      return null;
+    };
+
+    // Keeps track of a field being accessed directly on a variable
+    const addField = (variable: DULuaScopeVariable, identifier: any) => {
+      const positions = variable.fields.get(identifier.name) || [];
+      positions.push(identifier.range[0]);
+      variable.fields.set(identifier.name, positions);
+    };
+
+    // Any other use of a variable (passing it around, indexing with brackets, calling methods) means its fields could be accessed elsewhere
+    const reference = (identifier: any) => {
+      const variable = resolve(identifier);
+      if (variable) variable.escapes.push(identifier.range[0]);
+    };
+
+    // Walks through expressions, field names are left alone
+    const visitExpression = (node: any): void => {
+      if (!node) return;
+      switch (node.type) {
+        case 'Identifier':
+          return reference(node);
+        case 'FunctionDeclaration':
+          return visitFunction(node);
+        case 'MemberExpression':
+          if (node.base.type == 'Identifier' && node.indexer == '.') {
+            const variable = resolve(node.base);
+            if (variable) addField(variable, node.identifier);
+            return;
+          }
+          return visitExpression(node.base);
+        case 'IndexExpression':
+          visitExpression(node.base);
+          return visitExpression(node.index);
+        case 'CallExpression':
+          visitExpression(node.base);
+          return node.arguments.forEach(visitExpression);
+        case 'TableCallExpression':
+          visitExpression(node.base);
+          return visitExpression(node.arguments);
+        case 'StringCallExpression':
+          visitExpression(node.base);
+          return visitExpression(node.argument);
+        case 'TableConstructorExpression':
+          return node.fields.forEach((field: any) => {
+            if (field.type == 'TableKey') visitExpression(field.key);
+            visitExpression(field.value);
+          });
+        case 'BinaryExpression':
+        case 'LogicalExpression':
+          visitExpression(node.left);
+          return visitExpression(node.right);
+        case 'UnaryExpression':
+          return visitExpression(node.argument);
+      }
+    };
+
+    // Walks through a function body, methods also get an implicit "self"
+    const visitFunction = (node: any) => {
+      openScope();
+      if (node.identifier?.type == 'MemberExpression' && node.identifier.indexer == ':') {
+        declare('self', null, node.loc.start.line, true);
+      }
+      node.parameters
+        .filter((parameter: any) => parameter.type == 'Identifier')
+        .forEach(declareIdentifier);
+      visitBlock(node.body);
+      closeScope();
+    };
+
+    // Walks through a block of code with its own scope
+    const visitScopedBlock = (body: any[]) => {
+      openScope();
+      visitBlock(body);
+      closeScope();
+    };
+
+    // Walks through statements
+    const visitStatement = (node: any): void => {
+      switch (node.type) {
+        case 'LocalStatement':
+          // Values are evaluated before the variables exist
+          node.init.forEach(visitExpression);
+          return node.variables.forEach((identifier: any, idx: number) => {
+            const variable = declareIdentifier(identifier);
+            variable.init = node.init[idx] || null;
+
+            // Tables created along with their variables can have their fields tracked, as long as their keys are names or numbers
+            if (variable.init?.type == 'TableConstructorExpression') {
+              variable.init.fields.forEach((field: any) => {
+                if (field.type == 'TableKeyString') addField(variable, field.key);
+                if (field.type == 'TableKey' && field.key.type != 'NumericLiteral') variable.hasComputedKeys = true;
+              });
+            }
+          });
+        case 'AssignmentStatement':
+          node.variables.forEach(visitExpression);
+          return node.init.forEach(visitExpression);
+        case 'CallStatement':
+          return visitExpression(node.expression);
+        case 'FunctionDeclaration':
+          // Local functions can call themselves
+          if (node.isLocal) {
+            declareIdentifier(node.identifier);
+          } else {
+            visitExpression(node.identifier);
+          }
+          return visitFunction(node);
+        case 'ReturnStatement':
+          return node.arguments.forEach(visitExpression);
+        case 'IfStatement':
+          return node.clauses.forEach((clause: any) => {
+            visitExpression(clause.condition);
+            visitScopedBlock(clause.body);
+          });
+        case 'WhileStatement':
+          visitExpression(node.condition);
+          return visitScopedBlock(node.body);
+        case 'DoStatement':
+          return visitScopedBlock(node.body);
+        case 'RepeatStatement':
+          // The condition can see the variables declared inside the loop
+          openScope();
+          visitBlock(node.body);
+          visitExpression(node.condition);
+          return closeScope();
+        case 'ForNumericStatement':
+          visitExpression(node.start);
+          visitExpression(node.end);
+          visitExpression(node.step);
+          openScope();
+          declareIdentifier(node.variable);
+          visitBlock(node.body);
+          return closeScope();
+        case 'ForGenericStatement':
+          node.iterators.forEach(visitExpression);
+          openScope();
+          node.variables.forEach(declareIdentifier);
+          visitBlock(node.body);
+          return closeScope();
+      }
+    };
+    const visitBlock = (body: any[]) => body.forEach(visitStatement);
+
+    visitBlock(ast.body);
+
+    return { variables, globals, usesEnvironment };
+  }
+
+  /**
+   * Finds the variable an identifier points to
+   * @param analysis The analysis results
+   * @param identifier The identifier node
+   */
+  static getVariable(analysis: DULuaScopeAnalysis, identifier: any): DULuaScopeVariable | null {
+    return analysis.variables.find((variable) => variable.positions.includes(identifier.range[0])) || null;
+  }
+}
\ No newline at end of file
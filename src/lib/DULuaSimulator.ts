@@ -0,0 +1,311 @@
+import fs from "fs";
+import Application from "../Application";
+import ElementTypes from "../types/ElementType";
+import { SimpleMap } from "../types/SimpleMap";
+import { DULuaCompilerResult } from "./DULuaCompiler";
+import { DULuaConfig, DULuaConfigHandlerDetails } from "./DULuaConfig";
+import { DULuaSourceLocation } from "./DULuaMappedCode";
+import { CLI } from "./CLI";
+import { DULuaVirtualMachine } from "./DULuaVirtualMachine";
+
+/**
+ * Represents a runtime error raised by one of the handlers
+ */
+export type DULuaSimulatorError = {
+  handler: string,
+  message: string,
+  location: DULuaSourceLocation | null,
+};
+
+/**
+ * Options for the simulator
+ */
+export type DULuaSimulatorOptions = {
+  // Receives anything printed, including system.print
+  onPrint?: (message: string) => void,
+
+  // Receives every call made to the mocked slots
+  onCall?: (slot: string, method: string, args: any[]) => void,
+
+  // How many Lua instructions each handler can run, so infinite loops don't hang us forever
+  instructionLimit?: number,
+};
+
+/**
+ * Runs the handlers of a build, as they are exported, inside an embedded Lua VM where every slot is a mock generated from the Codex
+ */
+export class DULuaSimulator {
+  /**
+   * The helpers loaded before anything else, in order
+   */
+  private static helpers = [
+    'lua/Mocks.lua',
+    'Codex/Mocks.lua',
+  ];
+
+  /**
+   * The slots whose onStart handlers are run when starting, in the same order as in-game
+   */
+  private static startOrder = ['library', 'unit'];
+
+  /**
+   * Our Lua VM
+   */
+  private vm: DULuaVirtualMachine;
+
+  /**
+   * The handlers, keyed by their name on error messages
+   */
+  private handlers: Map<string, DULuaConfigHandlerDetails> = new Map();
+
+  /**
+   * The current in-game time, in seconds
+   */
+  private time = 0;
+
+  /**
+   * Errors raised by handlers, the script stops at the first one just like in-game
+   */
+  private errors: DULuaSimulatorError[] = [];
+
+  /**
+   * Errors caught and printed by the error handling wrapper (on targets with handleErrors), those don't stop the script
+   */
+  private handledErrors: DULuaSimulatorError[] = [];
+
+  /**
+   * Whether the script called unit.exit()
+   */
+  private exited = false;
+
+  /**
+   * Creates a new simulator for a build
+   * @param config The build output
+   * @param compilerResult The compiler output, used to create the mocks for linked elements and native libraries
+   * @param options The simulator options
+   */
+  constructor(config: DULuaConfig, compilerResult: DULuaCompilerResult, options: DULuaSimulatorOptions = {}) {
+    // Anything printed goes through us first, so we can pick up errors caught by the error handling wrapper
+    this.vm = new DULuaVirtualMachine((message) => {
+      this.collectHandledError(message);
+      options.onPrint ? options.onPrint(message) : CLI.print(message);
+    });
+    this.vm.setInstructionLimit(options.instructionLimit ?? null);
+
+    // Each handler gets a name, which is also used as its chunk name so errors can be mapped back to its code
+    config.getHandlers().forEach((details) => {
+      this.handlers.set(details.name || `${details.slot.name}.${details.handler.filter.signature}`, details);
+    });
+
+    // Works as a sandbox, scripts can't touch the filesystem and requires only resolve to what was bundled into the build
+    this.vm.run(`
+      package.path = ''
+      package.cpath = ''
+      package.jspath = ''
+      io, dofile, loadfile = nil, nil, nil
+      for _, name in ipairs({ 'execute', 'exit', 'getenv', 'remove', 'rename', 'tmpname' }) do
+        os[name] = nil
+      end
+    `, 'sandbox');
+
+    // Loads our mocks, the internal slots are created as globals
+    for (const helper of DULuaSimulator.helpers) {
+      this.vm.run(fs.readFileSync(Application.getPath(helper)).toString(), helper);
+    }
+
+    // Creates the linked elements, they're also made available on the unit and through its plugs, like in-game
+    const elementTypes = ElementTypes.getAllTypes();
+    const plugs = compilerResult.build.getLinkedElements().map((linkedElement) => {
+      const elementType = elementTypes[linkedElement.type];
+      this.vm.run(`
+        local name, luaClass, class = ...
+        _G[name] = Mock.new(luaClass, name)
+        unit[name] = _G[name]
+        Mock.returns(_G[name], 'getClass', class)
+      `, 'slots', [linkedElement.name, elementType?.luaClass || 'Element', elementType?.class || 'Element']);
+      return { name: linkedElement.name };
+    });
+
+    // The game's native libraries aren't available, so any of them required are replaced by mocks
+    const nativeLibraries = compilerResult.requires
+      .filter((require) => !require.resolved && compilerResult.project.internalPaths.some((path) => require.to.startsWith(path)))
+      .map((require) => require.to);
+    this.vm.run(`
+      for _, name in ipairs({ ... }) do
+        package.preload[name] = function () return Mock.any(name) end
+      end
+    `, 'libraries', [...new Set(nativeLibraries)]);
+
+    // Hooks the time, calls and exits to our simulation
+    this.vm.setGlobalFunction('__SIMULATOR_TIME', () => this.time);
+    this.vm.setGlobalFunction('__SIMULATOR_EXIT', () => { this.exited = true });
+    this.vm.setGlobalFunction('__SIMULATOR_CALL', (slot: string, method: string, ...args: any[]) => options.onCall && options.onCall(slot, method, args));
+    this.vm.run(`
+      local plugs = ...
+      Mock.returns(unit, 'getOutPlugs', plugs)
+      Mock.implement(system, 'getArkTime', __SIMULATOR_TIME)
+      Mock.implement(system, 'getUtcTime', __SIMULATOR_TIME)
+      Mock.implement(system, 'getTime', __SIMULATOR_TIME)
+      Mock.implement(unit, 'exit', __SIMULATOR_EXIT)
+      Mock.onCall = function (slot, method, args)
+        __SIMULATOR_CALL(slot, method, table.unpack(args, 1, args.n))
+      end
+    `, 'simulator', [plugs]);
+  }
+
+  /**
+   * Sets the values returned by the mocks of a slot
+   * @param slot The slot name
+   * @param values The value returned by each method
+   */
+  setMockValues(slot: string, values: SimpleMap<any>): void {
+    for (const method in values) {
+      this.vm.run(`
+        local slot, method, value = ...
+        if not _G[slot] then error('Unknown slot: ' .. slot) end
+        Mock.returns(_G[slot], method, value)
+      `, 'mocks', [slot, method, values[method]]);
+    }
+  }
+
+  /**
+   * Evaluates Lua code written as event arguments, such as "'a', 1"
+   * @param code The arguments code
+   */
+  evaluateArgs(code: string): any[] {
+    return this.vm.run(`return ${code}`, 'args');
+  }
+
+  /**
+   * Sets the current in-game time
+   * @param time The time, in seconds
+   */
+  setTime(time: number): void {
+    this.time = time;
+  }
+
+  /**
+   * Loads every handler without running them, so syntax errors can be found even on events that are never triggered
+   * @returns The errors found
+   */
+  check(): DULuaSimulatorError[] {
+    const errors: DULuaSimulatorError[] = [];
+    for (const [name, details] of this.handlers) {
+      try {
+        this.vm.load(details.handler.code, name);
+      } catch (err) {
+        errors.push(this.getError(err instanceof Error ? err.message : `${err}`));
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Runs the onStart handlers, in the same order as in-game
+   */
+  start(): void {
+    DULuaSimulator.startOrder.forEach((slot) => this.trigger(slot, 'onStart'));
+  }
+
+  /**
+   * Runs the onStop handlers
+   */
+  stop(): void {
+    this.trigger('unit', 'onStop');
+  }
+
+  /**
+   * Triggers an event, running all of its handlers
+   * @param slot The slot name
+   * @param event The event name, like "onTimer"
+   * @param args The event arguments
+   * @returns How many handlers were run
+   */
+  trigger(slot: string, event: string, args: any[] = []): number {
+    let count = 0;
+    for (const [name, details] of this.handlers) {
+      const signature = DULuaConfig.parseEventSignature(details.handler.filter.signature);
+      if (details.slot.name != slot || signature.name != event) continue;
+      if (this.isStopped()) break;
+
+      // Handler arguments are available as locals, declared on the first line so line numbers are kept
+      const prefix = signature.args.length > 0 ? `local ${signature.args.join(', ')} = ...; ` : '';
+      try {
+        this.vm.run(`${prefix}${details.handler.code}`, name, args);
+      } catch (err) {
+        const error = this.getError(err instanceof Error ? err.message : `${err}`);
+        this.errors.push({ ...error, handler: error.handler || name });
+      }
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Whether the script stopped running, either by an error or by calling unit.exit()
+   */
+  isStopped(): boolean {
+    return this.exited || this.errors.length > 0;
+  }
+
+  /**
+   * Gets all errors raised by handlers
+   */
+  getErrors(): DULuaSimulatorError[] {
+    return this.errors;
+  }
+
+  /**
+   * Gets all errors caught and printed by the error handling wrapper
+   */
+  getHandledErrors(): DULuaSimulatorError[] {
+    return this.handledErrors;
+  }
+
+  /**
+   * Frees the Lua VM, the simulator can't be used after this
+   */
+  close(): void {
+    this.vm.close();
+  }
+
+  /**
+   * Picks up an error printed by the error handling wrapper, if the message is one
+   * @param message The printed message
+   */
+  private collectHandledError(message: string): void {
+    if (!message.startsWith('[ERROR] ')) return;
+
+    for (const [name, details] of this.handlers) {
+      const label = DULuaConfig.getHandlerLabel(details.slot.name, details.handler.filter.signature, details.name);
+      if (!message.startsWith(`[ERROR] ${label}: `)) continue;
+
+      const error = this.getError(message.substring(`[ERROR] ${label}: `.length));
+      this.handledErrors.push({ ...error, handler: error.handler || name });
+      return;
+    }
+  }
+
+  /**
+   * Finds where an error came from, errors can come from a different handler than the one being run (when calling functions defined there)
+   * @param message The error message
+   */
+  private getError(message: string): DULuaSimulatorError {
+    for (const [name, details] of this.handlers) {
+      if (!message.startsWith(`${name}:`)) continue;
+
+      const line = /^:(\d+):/.exec(message.substring(name.length));
+      return {
+        handler: name,
+        message,
+        location: line ? details.code.getLocation(parseInt(line[1])) : null,
+      };
+    }
+
+    return {
+      handler: '',
+      message,
+      location: null,
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,157 @@
+import BuildTarget from "../types/BuildTarget";
+import { CLI } from "./CLI";
+import { DULuaCompilerResult } from "./DULuaCompiler";
+import { DULuaConfig, DULuaConfigContributorType } from "./DULuaConfig";
+
+/**
+ * Represents the sizes of a single piece of code making up a build
+ */
+export type DULuaSizeReportEntry = {
+  name: string,
+  type: DULuaConfigContributorType,
+  raw: number,
+  minified: number,
+  compressed: number,
+};
+
+/**
+ * Represents the full size report of a build
+ */
+export type DULuaSizeReportData = {
+  project: string,
+  build: string,
+  target: string,
+  entries: DULuaSizeReportEntry[],
+  total: {
+    raw: number,
+    minified: number,
+    compressed: number,
+  },
+};
+
+/**
+ * Helper to generate and render a breakdown of a build's size by each of the pieces of code making it up
+ */
+export class DULuaSizeReport {
+  /**
+   * Creates the size report of a build
+   * @param buildResult The compiler output
+   * @param buildTarget The build target used
+   * @param configFile The build output, where the pieces of code come from
+   */
+  static fromConfig(buildResult: DULuaCompilerResult, buildTarget: BuildTarget, configFile: DULuaConfig): DULuaSizeReportData {
+    const entries = configFile.getContributors().map((contributor): DULuaSizeReportEntry => {
+      // Each piece is minified and compressed on its own, if minification fails we keep the raw code
+      let minified = contributor.source;
+      try {
+        minified = DULuaConfig.runMinifier(contributor.source);
+      } catch (err) {
+        // Nothing necessary
+      }
+
+      return {
+        name: contributor.name,
+        type: contributor.type,
+        raw: Buffer.byteLength(contributor.source),
+        minified: Buffer.byteLength(minified),
+        compressed: Buffer.byteLength(DULuaConfig.runCompressor(minified, { quiet: true })),
+      };
+    });
+
+    return {
+      project: buildResult.project.name,
+      build: buildResult.build.name,
+      target: buildTarget.name,
+      entries,
+      total: {
+        raw: entries.reduce((total, entry) => total + entry.raw, 0),
+        minified: entries.reduce((total, entry) => total + entry.minified, 0),
+        compressed: entries.reduce((total, entry) => total + entry.compressed, 0),
+      },
+    };
+  }
+
+  /**
+   * Renders the report as a text table, largest pieces first
+   * @param report The size report
+   */
+  static toTable(report: DULuaSizeReportData): string {
+    const rows = [
+      ['Code', 'Type', 'Raw', 'Minified', 'Compressed'],
+      ...[...report.entries]
+        .sort((a, b) => b.raw - a.raw)
+        .map((entry) => [entry.name, entry.type, CLI.formatByteSize(entry.raw), CLI.formatByteSize(entry.minified), CLI.formatByteSize(entry.compressed)]),
+      ['Total', '', CLI.formatByteSize(report.total.raw), CLI.formatByteSize(report.total.minified), CLI.formatByteSize(report.total.compressed)],
+    ];
+
+    // Names and types are aligned to the left, sizes to the right
+    const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+    return rows
+      .map((row) => row.map((value, column) => column < 2 ? value.padEnd(widths[column]) : value.padStart(widths[column])).join('  '))
+      .join('\n');
+  }
+
+  /**
+   * Renders the report in the JSON format
+   * @param report The size report
+   */
+  static toJSON(report: DULuaSizeReportData): string {
+    return JSON.stringify(report, null, 2);
+  }
+
+  /**
+   * Renders the report as a standalone HTML page, with bars showing how much each piece takes of the total
+   * @param report The size report
+   */
+  static toHTML(report: DULuaSizeReportData): string {
+    const escape = (value: string) => value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+    const title = escape(`${report.project} ${report.target}/${report.build}`);
+
+    const rows = [...report.entries]
+      .sort((a, b) => b.raw - a.raw)
+      .map((entry) => {
+        const percentage = report.total.raw > 0 ? 100 * entry.raw / report.total.raw : 0;
+        return [
+          `<tr>`,
+          `<td>${escape(entry.name)}</td>`,
+          `<td>${entry.type}</td>`,
+          `<td class="size">${CLI.formatByteSize(entry.raw)}</td>`,
+          `<td class="size">${CLI.formatByteSize(entry.minified)}</td>`,
+          `<td class="size">${CLI.formatByteSize(entry.compressed)}</td>`,
+          `<td><div class="bar" style="width: ${percentage.toFixed(1)}%"></div>${percentage.toFixed(1)}%</td>`,
+          `</tr>`,
+        ].join('');
+      });
+
+    return [
+      `<!DOCTYPE html>`,
+      `<html>`,
+      `<head>`,
+      `<meta charset="utf-8">`,
+      `<title>Size report: ${title}</title>`,
+      `<style>`,
+      `body { font-family: sans-serif; margin: 2em; }`,
+      `table { border-collapse: collapse; width: 100%; }`,
+      `th, td { padding: 4px 8px; border-bottom: 1px solid #ddd; text-align: left; }`,
+      `.size { text-align: right; white-space: nowrap; }`,
+      `.bar { display: inline-block; height: 10px; margin-right: 6px; background: #4a90d9; }`,
+      `</style>`,
+      `</head>`,
+      `<body>`,
+      `<h1>Size report: ${title}</h1>`,
+      `<table>`,
+      `<thead><tr><th>Code</th><th>Type</th><th class="size">Raw</th><th class="size">Minified</th><th class="size">Compressed</th><th>Share of raw size</th></tr></thead>`,
+      `<tbody>`,
+      ...rows,
+      `</tbody>`,
+      `<tfoot><tr><th>Total</th><th></th><th class="size">${CLI.formatByteSize(report.total.raw)}</th><th class="size">${CLI.formatByteSize(report.total.minified)}</th><th class="size">${CLI.formatByteSize(report.total.compressed)}</th><th></th></tr></tfoot>`,
+      `</table>`,
+      `</body>`,
+      `</html>`,
+    ].join('\n');
+  }
+}
\ No newline at end of file
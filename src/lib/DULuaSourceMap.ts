@@ -0,0 +1,173 @@
+import { SimpleMap } from "../types/SimpleMap";
+import { DULuaMappedCode, DULuaSourceLocation } from "./DULuaMappedCode";
+
+/**
+ * Represents a range of output lines pointing to a certain source file
+ */
+export type DULuaSourceMapSegment = {
+  from: number,
+  to: number,
+  source: string,
+  line: number,
+  approximate?: boolean,
+};
+
+/**
+ * Represents the mappings of a single handler (or other piece of output code)
+ */
+export type DULuaSourceMapChunk = {
+  slot: string,
+  event: string,
+  name?: string,
+  key?: number,
+  segments: DULuaSourceMapSegment[],
+};
+
+/**
+ * Represents a full source map file
+ */
+export type DULuaSourceMapData = {
+  version: number,
+  project: string,
+  build: string,
+  target: string,
+  sources: SimpleMap<string>,
+  handlers: DULuaSourceMapChunk[],
+  autoconf: DULuaSourceMapChunk[],
+  main: DULuaSourceMapSegment[],
+  expanded?: DULuaSourceMapSegment[],
+};
+
+/**
+ * Represents the information we can extract from an in-game error message
+ */
+export type DULuaSourceMapError = {
+  message: string,
+  chunk?: string,
+  line?: number,
+  handler?: {
+    name?: string,
+    slot: string,
+    event: string,
+  },
+  expanded?: {
+    line: number,
+    code: string,
+  },
+};
+
+/**
+ * Helper to convert mapped code to and from the source map format
+ */
+export class DULuaSourceMap {
+  /**
+   * The current source map format version
+   */
+  static readonly version = 1;
+
+  /**
+   * Converts the line mappings of a piece of code into a list of segments
+   * @param code The mapped code
+   */
+  static createSegments(code: DULuaMappedCode): DULuaSourceMapSegment[] {
+    const segments: DULuaSourceMapSegment[] = [];
+
+    code.lines.forEach((location, idx) => {
+      // Skips generated lines
+      if (!location) return;
+
+      // Tries to extend the previous segment when lines are sequential (approximate segments always point to the same line)
+      const line = idx + 1;
+      const previous = segments[segments.length - 1];
+      if (
+        previous
+        && previous.to == line - 1
+        && previous.source == location.source
+        && !!previous.approximate == !!location.approximate
+        && (location.approximate ? previous.line : previous.line + (line - previous.from)) == location.line
+      ) {
+        previous.to = line;
+        return;
+      }
+
+      // Creates a new segment
+      segments.push({
+        from: line,
+        to: line,
+        source: location.source,
+        line: location.line,
+        ...(location.approximate ? { approximate: true } : {}),
+      });
+    });
+
+    return segments;
+  }
+
+  /**
+   * Finds the original location of an output line
+   * @param segments The segments being searched
+   * @param line The output line number, starting at 1
+   */
+  static findLocation(segments: DULuaSourceMapSegment[], line: number): DULuaSourceLocation | null {
+    const segment = segments.find((segment) => segment.from <= line && segment.to >= line);
+
+    // Handles lines without mappings
+    if (!segment) return null;
+
+    // Approximate segments don't have line-by-line information
+    if (segment.approximate) {
+      return {
+        source: segment.source,
+        line: segment.line,
+        approximate: true,
+      };
+    }
+
+    return {
+      source: segment.source,
+      line: segment.line + (line - segment.from),
+    };
+  }
+
+  /**
+   * Parses an error message as printed in the Lua chat, extracting any information useful to locate it
+   * @param error The error message
+   */
+  static parseErrorMessage(error: string): DULuaSourceMapError {
+    const result: DULuaSourceMapError = {
+      message: error.trim(),
+    };
+
+    // Errors caught by our error handler include the handler name, slot and event
+    const handlerMatch = /\[ERROR\] (?:(.+?) \()?(\w+)\.(\w+\([^)]*\))\)?: /.exec(error);
+    if (handlerMatch) {
+      result.handler = {
+        name: handlerMatch[1],
+        slot: handlerMatch[2],
+        event: handlerMatch[3],
+      };
+      result.message = error.substring(handlerMatch.index + handlerMatch[0].length).trim();
+    }
+
+    // Errors coming from compressed code only have the line number on the expanded code
+    const expandedMatch = /\[ERROR\] ([\s\S]*) near `([\s\S]*)` at line (\d+)\s*$/.exec(error);
+    if (expandedMatch) {
+      result.message = expandedMatch[1].trim();
+      result.expanded = {
+        line: parseInt(expandedMatch[3]),
+        code: expandedMatch[2],
+      };
+      return result;
+    }
+
+    // Standard Lua errors are in the [string "chunk"]:line: format, the chunk name is the first line of code, usually truncated
+    const chunkMatch = /\[string "(.*?)"\]:(\d+):\s*/.exec(result.message);
+    if (chunkMatch) {
+      result.chunk = chunkMatch[1].replace(/\.\.\.$/, '');
+      result.line = parseInt(chunkMatch[2]);
+      result.message = result.message.substring(chunkMatch.index + chunkMatch[0].length).trim();
+    }
+
+    return result;
+  }
+}
\ No newline at end of file
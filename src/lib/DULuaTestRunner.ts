@@ -0,0 +1,139 @@
+import fs from "fs";
+import path from "path";
+import Application from "../Application";
+import Build from "../types/Build";
+import BuildTarget from "../types/BuildTarget";
+import { CompilerVariableSet } from "../types/CompilerVariable";
+import Project from "../types/Project";
+import { DULuaCompiler } from "./DULuaCompiler";
+import { DULuaCoverage } from "./DULuaCoverage";
+import { DULuaDiagnostics } from "./DULuaDiagnostics";
+import { DULuaVirtualMachine } from "./DULuaVirtualMachine";
+
+/**
+ * Represents the result of a single test
+ */
+export type DULuaTestCase = {
+  name: string,
+  passed: boolean,
+  message: string | null,
+};
+
+/**
+ * Represents the results of a test file, the error is set when the file itself fails to compile or run
+ */
+export type DULuaTestFileResult = {
+  file: string,
+  tests: DULuaTestCase[],
+  error: string | null,
+};
+
+/**
+ * Runs Lua test files from a project inside an embedded Lua VM
+ */
+export class DULuaTestRunner {
+  /**
+   * Files with this suffix on the source directory are tests
+   */
+  static readonly testSuffix = '_test.lua';
+
+  /**
+   * Any Lua files on this directory (relative to the project) are tests
+   */
+  static readonly specDirectory = 'spec';
+
+  /**
+   * How many instructions each test (and the test file itself) can execute, so infinite loops fail the test instead of hanging
+   */
+  static readonly instructionLimit = 10000000;
+
+  /**
+   * The helpers loaded before each test file, in order
+   */
+  private static helpers = [
+    'lua/Mocks.lua',
+    'Codex/Mocks.lua',
+    'lua/Events.lua',
+    'lua/Testing.lua',
+  ];
+
+  /**
+   * Finds all test files on a project, those are the "*_test.lua" files on the source directory and all Lua files on "spec"
+   * @param project The project being tested
+   */
+  static findTestFiles(project: Project): string[] {
+    // Lists all files in a directory, skipping hidden ones
+    const walk = (directory: string): string[] => {
+      if (!fs.existsSync(directory)) return [];
+      return fs.readdirSync(directory, { withFileTypes: true })
+        .filter((entry) => !entry.name.startsWith('.'))
+        .flatMap((entry) => entry.isDirectory()
+          ? walk(path.join(directory, entry.name))
+          : [path.join(directory, entry.name)]
+        );
+    };
+
+    // Libraries have their own tests, so we skip them
+    const libraryDirectory = project.getLibraryDirectory();
+    const files = [
+      ...walk(project.getSourceDirectory()).filter((file) => file.endsWith(this.testSuffix)),
+      ...walk(path.join(project.getProjectDirectory(), this.specDirectory)).filter((file) => file.endsWith('.lua')),
+    ].filter((file) => !file.startsWith(libraryDirectory + path.sep));
+
+    return [...new Set(files)].sort();
+  }
+
+  /**
+   * Compiles and runs a single test file, requires are resolved the same way as on builds
+   * @param project The project being tested
+   * @param buildTarget The build target providing compiler variables
+   * @param file The full path of the test file
+   * @param variables Any extra compiler variables
+   * @param coverage When set, the project's sources are instrumented and their line coverage is collected into it
+   */
+  static async runFile(project: Project, buildTarget: BuildTarget, file: string, variables: CompilerVariableSet = {}, coverage?: DULuaCoverage): Promise<DULuaTestFileResult> {
+    const result: DULuaTestFileResult = {
+      file: DULuaDiagnostics.getDisplayPath(project, file),
+      tests: [],
+      error: null,
+    };
+
+    // The test file is compiled as a build of its own, named after its path relative to the source directory
+    const build = new Build({
+      name: path.relative(project.getSourceDirectory(), file).replace(/\\/g, '/').replace(/\.lua$/, ''),
+    });
+
+    const vm = new DULuaVirtualMachine();
+    vm.setInstructionLimit(this.instructionLimit);
+    try {
+      const compilerResult = await DULuaCompiler.compile(project, build, buildTarget, variables, true, undefined, coverage);
+
+      // Loads our helpers, the testing one reports results back to us
+      vm.setGlobalFunction('__TEST_REPORT', (name: string, passed: boolean, message: string | null) => {
+        result.tests.push({ name, passed, message });
+      });
+      vm.setGlobalFunction('__TEST_START', () => vm.resetInstructionCount());
+      if (coverage) {
+        vm.setGlobalFunction(DULuaCoverage.functionName, (id: number, line: number) => coverage.hit(id, line));
+      }
+      for (const helper of this.helpers) {
+        vm.run(fs.readFileSync(Application.getPath(helper)).toString(), path.basename(helper));
+      }
+
+      // Each file is loaded as its own chunk, so errors point to the right file and line
+      const chunkName = (name: string) => compilerResult.sources[name]
+        ? DULuaDiagnostics.getDisplayPath(project, compilerResult.sources[name])
+        : name;
+      for (const preload of compilerResult.preloads) {
+        vm.run(preload.output, chunkName(preload.path));
+      }
+      vm.run(compilerResult.output, chunkName(compilerResult.entrypoint));
+    } catch (err) {
+      result.error = err instanceof Error ? err.message : `${err}`;
+    } finally {
+      vm.close();
+    }
+
+    return result;
+  }
+}
\ No newline at end of file
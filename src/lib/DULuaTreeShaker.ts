@@ -0,0 +1,318 @@
+import luaparse from "luaparse";
+import { CLI } from "./CLI";
+import ColorScheme from "./ColorScheme";
+import { DULuaCompiler, DULuaCompilerPreload, DULuaCompilerResult } from "./DULuaCompiler";
+import { DULuaScopeAnalysis, DULuaScopeAnalyzer, DULuaScopeVariable } from "./DULuaScopeAnalyzer";
+
+/**
+ * Represents a function defined on a module's table, along with the code that can be removed along with it
+ */
+type DULuaTreeShakerDefinition = {
+  field: string,
+  namePosition: number,
+  range: [number, number],
+  removal: [number, number],
+};
+
+/**
+ * Represents a module which returns a local table, the only kind of module we can remove functions from
+ */
+type DULuaTreeShakerModule = {
+  table: DULuaScopeVariable,
+  definitions: DULuaTreeShakerDefinition[],
+};
+
+/**
+ * Represents a file being analyzed
+ */
+type DULuaTreeShakerFile = {
+  path: string,
+  source: string,
+  ast: luaparse.Chunk,
+  analysis: DULuaScopeAnalysis,
+};
+
+/**
+ * Represents the functions removed from a single module
+ */
+export type DULuaTreeShakerModuleResult = {
+  module: string,
+  functions: string[],
+  bytes: number,
+};
+
+/**
+ * Removes functions that are never referenced from the tables returned by required modules
+ */
+export class DULuaTreeShaker {
+  /**
+   * The tag used when printing to the console
+   */
+  private static CLITag = 'SHAKE';
+
+  /**
+   * How many times we go over all files, since removing a function may leave others unused
+   */
+  private static maxPasses = 10;
+
+  /**
+   * Removes unused functions from the preloads of a build and reports how many bytes were saved
+   * @param compilerResult The compiler result
+   */
+  static process(compilerResult: DULuaCompilerResult): DULuaCompilerPreload[] {
+    let preloads = compilerResult.preloads;
+    const removed: Map<string, DULuaTreeShakerModuleResult> = new Map();
+
+    for (let pass = 0; pass < this.maxPasses; pass++) {
+      const results = this.shake(compilerResult.entrypoint, compilerResult.output, preloads);
+      if (null === results) {
+        CLI.warn(`Build ${ColorScheme.highlight(compilerResult.build.name)} has dynamic requires, no unused functions will be removed`);
+        return compilerResult.preloads;
+      }
+      if (results.removed.length == 0) break;
+
+      // Merges the results with the previous passes
+      preloads = results.preloads;
+      results.removed.forEach((result) => {
+        const previous = removed.get(result.module);
+        removed.set(result.module, {
+          module: result.module,
+          functions: [...(previous?.functions || []), ...result.functions],
+          bytes: (previous?.bytes || 0) + result.bytes,
+        });
+      });
+    }
+
+    // Reports what was removed
+    let totalFunctions = 0;
+    let totalBytes = 0;
+    removed.forEach((result) => {
+      CLI.status(this.CLITag, `${result.module}: removed ${result.functions.length} unused functions (${result.bytes} bytes)`);
+      totalFunctions += result.functions.length;
+      totalBytes += result.bytes;
+    });
+    if (totalFunctions > 0) {
+      CLI.status(this.CLITag, `Removed ${totalFunctions} unused functions, ${totalBytes} bytes in total`);
+    }
+
+    return preloads;
+  }
+
+  /**
+   * Goes over all files once, removing any functions not referenced anywhere
+   * @param entrypoint The name of the main file
+   * @param output The main file's code
+   * @param preloads The required files
+   * @returns The new preloads along with what was removed, or null when the build can't be analyzed
+   */
+  private static shake(entrypoint: string, output: string, preloads: DULuaCompilerPreload[]): { preloads: DULuaCompilerPreload[], removed: DULuaTreeShakerModuleResult[] } | null {
+    // Parses all files
+    const files: DULuaTreeShakerFile[] = [{ path: entrypoint, source: output }, ...preloads].map((file) => {
+      const ast = luaparse.parse(file.source, { locations: true, ranges: true, comments: false, luaVersion: '5.3' });
+      return {
+        path: file.path,
+        source: file.source,
+        ast,
+        analysis: DULuaScopeAnalyzer.analyze(ast),
+      };
+    });
+
+    // Finds which modules can have functions removed
+    const modules: Map<string, DULuaTreeShakerModule> = new Map();
+    files.slice(1).forEach((file) => {
+      const module = this.getModule(file);
+      if (module) modules.set(file.path, module);
+    });
+
+    // Finds which fields are used by other files, a null means the whole table is used
+    const used: Map<string, Set<string> | null> = new Map();
+    for (const file of files) {
+      if (!this.findExternalUses(file, modules, used)) return null;
+    }
+
+    const removed: DULuaTreeShakerModuleResult[] = [];
+    const newPreloads = preloads.map((preload) => {
+      const module = modules.get(preload.path);
+      const usedFields = used.get(preload.path);
+      if (!module || null === usedFields) return preload;
+
+      // Keeps every function reachable from the used fields or from code outside of function definitions
+      const reachable = new Set(usedFields);
+      const edges = this.getInternalUses(module, reachable);
+      const queue = [...reachable];
+      while (queue.length > 0) {
+        for (const field of edges.get(queue.pop()!) || []) {
+          if (!reachable.has(field)) {
+            reachable.add(field);
+            queue.push(field);
+          }
+        }
+      }
+
+      // Removes everything else, line breaks are kept so line numbers are unchanged
+      const unused = module.definitions
+        .filter((definition) => !reachable.has(definition.field))
+        .sort((a, b) => b.removal[0] - a.removal[0]);
+      if (unused.length == 0) return preload;
+
+      let source = preload.source;
+      let bytes = 0;
+      for (const definition of unused) {
+        const code = source.substring(definition.removal[0], definition.removal[1]);
+        const replacement = code.replace(/[^\n]/g, '');
+        bytes += Buffer.byteLength(code) - replacement.length;
+        source = source.substring(0, definition.removal[0]) + replacement + source.substring(definition.removal[1]);
+      }
+
+      removed.push({
+        module: preload.path,
+        functions: unused.map((definition) => definition.field).reverse(),
+        bytes,
+      });
+      return {
+        ...preload,
+        source,
+        output: `package.preload['${preload.path}'] = (function (...) ${source}; end);`,
+      };
+    });
+
+    return { preloads: newPreloads, removed };
+  }
+
+  /**
+   * Checks if a file returns a local table and finds the functions defined on it at the top level
+   * @param file The file being analyzed
+   */
+  private static getModule(file: DULuaTreeShakerFile): DULuaTreeShakerModule | null {
+    // The file must end by returning a local table
+    const returnStatement: any = file.ast.body[file.ast.body.length - 1];
+    if (returnStatement?.type != 'ReturnStatement' || returnStatement.arguments.length != 1 || returnStatement.arguments[0].type != 'Identifier') return null;
+
+    // That table can't be passed around or indexed with anything other than names, otherwise any field could be in use
+    const table = DULuaScopeAnalyzer.getVariable(file.analysis, returnStatement.arguments[0]);
+    if (!table || table.init?.type != 'TableConstructorExpression' || table.hasComputedKeys || table.escapes.length != 1) return null;
+
+    const isTableField = (node: any) => node.type == 'MemberExpression' && node.indexer == '.' && node.base.type == 'Identifier'
+      && DULuaScopeAnalyzer.getVariable(file.analysis, node.base) === table;
+    const definitions: DULuaTreeShakerDefinition[] = [];
+
+    // Functions defined directly on the table constructor, removed along with their separators, the last one leaves the previous separator behind which is still valid Lua
+    const fields: any[] = table.init.fields;
+    fields.forEach((field, idx) => {
+      if (field.type != 'TableKeyString' || field.value.type != 'FunctionDeclaration') return;
+      definitions.push({
+        field: field.key.name,
+        namePosition: field.key.range[0],
+        range: field.range,
+        removal: [field.range[0], idx < fields.length - 1 ? fields[idx + 1].range[0] : table.init.range[1] - 1],
+      });
+    });
+
+    // Functions defined later, either as "function M.name()" or "M.name = function()"
+    for (const statement of file.ast.body as any[]) {
+      let identifier: any = null;
+      if (statement.type == 'FunctionDeclaration' && !statement.isLocal && isTableField(statement.identifier)) {
+        identifier = statement.identifier.identifier;
+      } else if (statement.type == 'AssignmentStatement' && statement.variables.length == 1 && statement.init.length == 1
+        && isTableField(statement.variables[0]) && statement.init[0].type == 'FunctionDeclaration') {
+        identifier = statement.variables[0].identifier;
+      }
+      if (!identifier) continue;
+
+      definitions.push({
+        field: identifier.name,
+        namePosition: identifier.range[0],
+        range: statement.range,
+        removal: statement.range,
+      });
+    }
+
+    return { table, definitions };
+  }
+
+  /**
+   * Finds which fields each function of a module uses, fields used outside of any function are added to the used set
+   * @param module The module being analyzed
+   * @param used The fields in use
+   */
+  private static getInternalUses(module: DULuaTreeShakerModule, used: Set<string>): Map<string, Set<string>> {
+    const edges: Map<string, Set<string>> = new Map();
+    module.table.fields.forEach((positions, field) => {
+      for (const position of positions) {
+        // Skips the names of the definitions themselves
+        if (module.definitions.some((definition) => definition.namePosition == position)) continue;
+
+        const definition = module.definitions.find((definition) => position >= definition.range[0] && position < definition.range[1]);
+        if (definition) {
+          const fields = edges.get(definition.field) || new Set();
+          fields.add(field);
+          edges.set(definition.field, fields);
+        } else {
+          used.add(field);
+        }
+      }
+    });
+    return edges;
+  }
+
+  /**
+   * Finds all requires of our modules in a file, and which of their fields are used
+   * @param file The file being analyzed
+   * @param modules The modules we can remove functions from
+   * @param used The fields used on each module, a null means the whole table is used
+   * @returns False when the file has requires we can't follow
+   */
+  private static findExternalUses(file: DULuaTreeShakerFile, modules: Map<string, DULuaTreeShakerModule>, used: Map<string, Set<string> | null>): boolean {
+    let isValid = true;
+
+    // Helpers
+    const useAll = (module: string) => used.set(module, null);
+    const useFields = (module: string, fields: Iterable<string>) => {
+      const current = used.has(module) ? used.get(module)! : new Set<string>();
+      if (null === current) return;
+      for (const field of fields) current.add(field);
+      used.set(module, current);
+    };
+
+    DULuaCompiler.walkSyntaxTree(file.ast, (node, parent, key) => {
+      // Finds which module is being required, either with Lua requires or inlined ones
+      let argument: any = null;
+      if (node.type == 'CallExpression' && node.base.type == 'Identifier' && node.base.name == 'require') {
+        argument = node.arguments[0];
+      } else if (node.type == 'StringCallExpression' && node.base.type == 'Identifier' && node.base.name == 'require') {
+        argument = node.argument;
+      } else if (node.type == 'IndexExpression' && node.base.type == 'Identifier' && node.base.name == DULuaCompiler.globalInlineRequire) {
+        argument = node.index;
+      } else {
+        return;
+      }
+
+      if (argument?.type != 'StringLiteral') {
+        isValid = false;
+        return;
+      }
+      const module = DULuaCompiler.getStringLiteralValue(argument);
+      if (module == file.path || !modules.has(module)) return;
+
+      if (parent?.type == 'LocalStatement' && key == 'init') {
+        // Stored on a local variable, we use whatever fields are used on it
+        const identifier = parent.variables[parent.init.indexOf(node)];
+        const variable = identifier ? DULuaScopeAnalyzer.getVariable(file.analysis, identifier) : null;
+        if (!identifier) return;
+        if (!variable || variable.escapes.length > 0) return useAll(module);
+        useFields(module, variable.fields.keys());
+      } else if (parent?.type == 'MemberExpression' && key == 'base' && parent.indexer == '.') {
+        // Accessed directly
+        useFields(module, [parent.identifier.name]);
+      } else if (parent?.type == 'CallStatement') {
+        // Required only for its side effects
+        useFields(module, []);
+      } else {
+        // Anything else could use any of its fields
+        useAll(module);
+      }
+    });
+
+    return isValid;
+  }
+}
\ No newline at end of file
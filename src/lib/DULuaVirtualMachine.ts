@@ -0,0 +1,289 @@
+import { lua, lauxlib, lualib, to_luastring } from "fengari";
+import { CLI } from "./CLI";
+
+/**
+ * A JavaScript function callable from Lua, arguments and return values are converted between both languages
+ */
+export type DULuaVirtualMachineFunction = (...args: any[]) => any;
+
+/**
+ * An in-process Lua 5.3 VM, powered by Fengari so no Lua install is needed
+ */
+export class DULuaVirtualMachine {
+  /**
+   * How deep we go when converting Lua tables into JavaScript objects
+   */
+  private static maxDepth = 16;
+
+  /**
+   * The Lua state
+   */
+  private L = lauxlib.luaL_newstate();
+
+  /**
+   * How many instructions a single run can execute, so infinite loops don't hang us forever
+   */
+  private instructionLimit: number | null = null;
+
+  /**
+   * How many instructions were executed on the current run, counted in steps of the hook interval
+   */
+  private instructionCount = 0;
+
+  /**
+   * How many instructions run between each check of the instruction limit
+   */
+  private static hookInterval = 1000;
+
+  /**
+   * Creates a new VM with the standard Lua libraries loaded
+   * @param onPrint Where anything printed by Lua goes, defaults to the console
+   */
+  constructor(private onPrint: (message: string) => void = (message) => CLI.print(message)) {
+    lualib.luaL_openlibs(this.L);
+
+    // Replaces print, so we can redirect its output
+    lua.lua_pushjsfunction(this.L, (L: any) => {
+      const values: string[] = [];
+      for (let idx = 1; idx <= lua.lua_gettop(L); idx++) {
+        lauxlib.luaL_tolstring(L, idx);
+        values.push(lua.lua_tojsstring(L, -1));
+        lua.lua_pop(L, 1);
+      }
+      this.onPrint(values.join('\t'));
+      return 0;
+    });
+    lua.lua_setglobal(this.L, to_luastring('print'));
+  }
+
+  /**
+   * Runs a piece of Lua code, any errors are thrown with the Lua error message
+   * @param code The code being run
+   * @param chunkName The name of the code on error messages, usually its file name
+   * @param args The arguments passed to the code, available via "..."
+   * @returns All values returned by the code
+   */
+  run(code: string, chunkName: string, args: any[] = []): any[] {
+    const top = lua.lua_gettop(this.L);
+    this.instructionCount = 0;
+    try {
+      this.loadChunk(code, chunkName);
+      args.forEach((arg) => this.push(this.L, arg));
+      if (lua.lua_pcall(this.L, args.length, lua.LUA_MULTRET, 0) != lua.LUA_OK) {
+        throw new Error(this.toErrorMessage(-1));
+      }
+
+      const results: any[] = [];
+      for (let idx = top + 1; idx <= lua.lua_gettop(this.L); idx++) {
+        results.push(this.toValue(this.L, idx));
+      }
+      return results;
+    } finally {
+      lua.lua_settop(this.L, top);
+    }
+  }
+
+  /**
+   * Loads a piece of Lua code without running it, any syntax errors are thrown with the Lua error message
+   * @param code The code being loaded
+   * @param chunkName The name of the code on error messages, usually its file name
+   */
+  load(code: string, chunkName: string): void {
+    const top = lua.lua_gettop(this.L);
+    try {
+      this.loadChunk(code, chunkName);
+    } finally {
+      lua.lua_settop(this.L, top);
+    }
+  }
+
+  /**
+   * Limits how many instructions each run can execute, raising an error when going over it
+   * @param limit The maximum amount of instructions, or null for no limit
+   */
+  setInstructionLimit(limit: number | null): void {
+    this.instructionLimit = limit;
+    if (null === limit) {
+      lua.lua_sethook(this.L, null, 0, 0);
+      return;
+    }
+
+    lua.lua_sethook(this.L, (L: any) => {
+      this.instructionCount += DULuaVirtualMachine.hookInterval;
+      if (null !== this.instructionLimit && this.instructionCount > this.instructionLimit) {
+        // Hooks don't have a stack level of their own, so the position is taken from the function being run
+        lauxlib.luaL_where(L, 0);
+        const where = lua.lua_tojsstring(L, -1);
+        lua.lua_pop(L, 1);
+        lauxlib.luaL_error(L, to_luastring('%sinstruction limit of %d reached, is there an infinite loop?'), to_luastring(where), this.instructionLimit);
+      }
+    }, lua.LUA_MASKCOUNT, DULuaVirtualMachine.hookInterval);
+  }
+
+  /**
+   * Restarts counting instructions towards the limit, so a long run can give each of its parts the full limit
+   */
+  resetInstructionCount(): void {
+    this.instructionCount = 0;
+  }
+
+  /**
+   * Calls a global Lua function, any errors are thrown with the Lua error message
+   * @param name The name of the function
+   * @param args The arguments passed to it
+   * @returns The first value returned by the function
+   */
+  call(name: string, ...args: any[]): any {
+    const top = lua.lua_gettop(this.L);
+    try {
+      lua.lua_getglobal(this.L, to_luastring(name));
+      args.forEach((arg) => this.push(this.L, arg));
+      if (lua.lua_pcall(this.L, args.length, 1, 0) != lua.LUA_OK) {
+        throw new Error(this.toErrorMessage(-1));
+      }
+      return this.toValue(this.L, -1);
+    } finally {
+      lua.lua_settop(this.L, top);
+    }
+  }
+
+  /**
+   * Exposes a JavaScript function to Lua as a global, any errors it throws are raised as Lua errors
+   * @param name The name of the global
+   * @param fn The function being exposed
+   */
+  setGlobalFunction(name: string, fn: DULuaVirtualMachineFunction): void {
+    this.pushFunction(this.L, fn);
+    lua.lua_setglobal(this.L, to_luastring(name));
+  }
+
+  /**
+   * Frees the Lua state, the VM can't be used after this
+   */
+  close(): void {
+    lua.lua_close(this.L);
+  }
+
+  /**
+   * Loads a chunk into the top of the Lua stack, any syntax errors are thrown with the Lua error message
+   * @param code The code being loaded
+   * @param chunkName The name of the code on error messages
+   */
+  private loadChunk(code: string, chunkName: string): void {
+    if (lauxlib.luaL_loadbuffer(this.L, to_luastring(code), null, to_luastring(`@${chunkName}`)) != lua.LUA_OK) {
+      throw new Error(this.toErrorMessage(-1));
+    }
+  }
+
+  /**
+   * Pushes a JavaScript value into the Lua stack, objects and arrays are converted into tables
+   * @param L The Lua state (or thread) being used
+   * @param value The value being pushed
+   */
+  private push(L: any, value: any): void {
+    if (null === value || undefined === value) {
+      lua.lua_pushnil(L);
+    } else if ('boolean' == typeof value) {
+      lua.lua_pushboolean(L, value);
+    } else if ('number' == typeof value) {
+      Number.isInteger(value) ? lua.lua_pushinteger(L, value) : lua.lua_pushnumber(L, value);
+    } else if ('string' == typeof value) {
+      lua.lua_pushstring(L, to_luastring(value));
+    } else if ('function' == typeof value) {
+      this.pushFunction(L, value);
+    } else if ('object' == typeof value) {
+      lua.lua_newtable(L);
+      const entries: [string | number, any][] = Array.isArray(value)
+        ? value.map((item, idx) => [idx + 1, item])
+        : Object.entries(value);
+      for (const [key, item] of entries) {
+        this.push(L, key);
+        this.push(L, item);
+        lua.lua_settable(L, -3);
+      }
+    } else {
+      lua.lua_pushnil(L);
+    }
+  }
+
+  /**
+   * Pushes a JavaScript function into the Lua stack, any errors it throws are raised as Lua errors
+   * @param L The Lua state (or thread) being used
+   * @param fn The function being pushed
+   */
+  private pushFunction(L: any, fn: DULuaVirtualMachineFunction): void {
+    lua.lua_pushjsfunction(L, (L: any) => {
+      const args: any[] = [];
+      for (let idx = 1; idx <= lua.lua_gettop(L); idx++) {
+        args.push(this.toValue(L, idx));
+      }
+
+      let result: any;
+      try {
+        result = fn(...args);
+      } catch (err) {
+        return lauxlib.luaL_error(L, to_luastring('%s'), to_luastring(err instanceof Error ? err.message : `${err}`));
+      }
+
+      if (undefined === result) return 0;
+      this.push(L, result);
+      return 1;
+    });
+  }
+
+  /**
+   * Converts a value on the Lua stack into a JavaScript value, tables become arrays (when sequences) or objects
+   * @param L The Lua state (or thread) being used
+   * @param index The stack index of the value
+   * @param depth How deep we are inside tables
+   */
+  private toValue(L: any, index: number, depth: number = 0): any {
+    switch (lua.lua_type(L, index)) {
+      case lua.LUA_TNIL:
+        return null;
+      case lua.LUA_TBOOLEAN:
+        return lua.lua_toboolean(L, index);
+      case lua.LUA_TNUMBER:
+        return lua.lua_tonumber(L, index);
+      case lua.LUA_TSTRING:
+        return lua.lua_tojsstring(L, index);
+      case lua.LUA_TTABLE: {
+        if (depth >= DULuaVirtualMachine.maxDepth) return {};
+
+        // Goes through all keys, the table is referenced by an absolute index since the stack changes meanwhile
+        const table = index < 0 ? lua.lua_gettop(L) + index + 1 : index;
+        const result: any = {};
+        lua.lua_pushnil(L);
+        while (lua.lua_next(L, table) != 0) {
+          lua.lua_pushvalue(L, -2);
+          const key = lauxlib.luaL_tolstring(L, -1) && lua.lua_tojsstring(L, -1);
+          lua.lua_pop(L, 2);
+          result[key] = this.toValue(L, -1, depth + 1);
+          lua.lua_pop(L, 1);
+        }
+
+        // Sequences are converted into arrays
+        const keys = Object.keys(result);
+        if (keys.length > 0 && keys.every((key, idx) => key == `${idx + 1}`)) {
+          return keys.map((key) => result[key]);
+        }
+        return result;
+      }
+      default: {
+        const value = lauxlib.luaL_tolstring(L, index) && lua.lua_tojsstring(L, -1);
+        lua.lua_pop(L, 1);
+        return value;
+      }
+    }
+  }
+
+  /**
+   * Gets an error message from the Lua stack, errors might not always be strings
+   * @param index The stack index of the error
+   */
+  private toErrorMessage(index: number): string {
+    const message = lauxlib.luaL_tolstring(this.L, index) && lua.lua_tojsstring(this.L, -1);
+    lua.lua_pop(this.L, 1);
+    return message;
+  }
+}
\ No newline at end of file
@@ -20,9 +20,22 @@ export default class GitClient {
    * @returns The result of that command or null, if it fails
    */
   static runGitCommand(command: string, ...args: string[]): GitClientResult | null {
+    return this.runGitCommandAt(null, command, ...args);
+  }
+
+  /**
+   * Executes a Git command on a certain directory
+   * @param directory The directory where the command will run, or null for the current one
+   * @param command The Git command we're running
+   * @param args The optional arguments for the Git command
+   * @returns The result of that command or null, if it fails
+   */
+  static runGitCommandAt(directory: string | null, command: string, ...args: string[]): GitClientResult | null {
     try {
       // Runs our Git process as a separate process
-      const result = child_process.spawnSync('git', [command, ...args]);
+      const result = child_process.spawnSync('git', [command, ...args], {
+        ...(directory ? { cwd: directory } : {}),
+      });
 
       // Returns our status and output
       return {
@@ -60,6 +73,37 @@ export default class GitClient {
     return !!this.getVersion();
   }
 
+  /**
+   * Gets the hash of the current commit on a repository
+   * @param directory The repository directory
+   * @returns The commit hash, or null if not a Git repository (or no commits are present)
+   */
+  static getCommitHash(directory: string): string | null {
+    // Asks Git for the current commit
+    const result = this.runGitCommandAt(directory, 'rev-parse', 'HEAD');
+
+    // Only returns valid results
+    if (!result || result.status != 0) return null;
+    return Array.from(/\b([0-9a-f]{40})\b/.exec(result.output) || [])[1] || null;
+  }
+
+  /**
+   * Checks if a repository has uncommitted changes to its tracked files
+   * @param directory The repository directory
+   * @returns Whether the repository is dirty, or null if not a Git repository
+   */
+  static isDirty(directory: string): boolean | null {
+    // Refreshes the index first, otherwise files with only their modification time changed are reported as changes
+    this.runGitCommandAt(directory, 'update-index', '-q', '--refresh');
+
+    // Git exits with 1 when there are changes
+    const result = this.runGitCommandAt(directory, 'diff-index', '--quiet', 'HEAD', '--');
+
+    // Handles invalid repositories
+    if (!result || result.status > 1) return null;
+    return result.status == 1;
+  }
+
   /**
    * Clones a Git repository locally
    * @param repository The repository URL we're cloning from
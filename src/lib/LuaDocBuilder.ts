@@ -39,7 +39,7 @@ export default class LuaDocBuilder {
    * Generates a class with all its inherited methods and events
    * @param className The class name being processed
    */
-  private buildClassWithInheritance(className: string): CodexClass {
+  buildClassWithInheritance(className: string): CodexClass {
     // This is our current class
     const currentClass = (this.codex.classes || {})[className];
 
@@ -0,0 +1,81 @@
+import Codex from "../types/Codex";
+import { CLI } from "./CLI";
+import LuaDocBuilder from "./LuaDocBuilder";
+
+/**
+ * Utility that converts a Codex into Lua mock definitions, used by the mock runtime on lua/Mocks.lua
+ */
+export default class LuaMockBuilder {
+  /**
+   * Used to walk through each class' inheritance tree
+   */
+  private docBuilder: LuaDocBuilder;
+
+  /**
+   * Initializes our mock builder
+   * @param codex The Codex structure
+   */
+  constructor(private codex: Codex) {
+    this.docBuilder = new LuaDocBuilder(codex);
+  }
+
+  /**
+   * Builds the definition of a single class, with all its inherited methods and events
+   * @param className The class name being processed
+   */
+  private buildClassDefinition(className: string): string {
+    const classInfo = this.docBuilder.buildClassWithInheritance(className);
+
+    // Each method is listed along with its return types, so the mocks can return default values for them
+    const methods = Object.keys(classInfo.methods || {})
+      .map((name) => {
+        const returns = ((classInfo.methods || {})[name].returns || [])
+          .map((returnInfo) => `'${returnInfo.type}'`);
+        return `    ${name} = ${this.buildList(returns)},`;
+      });
+    const events = Object.keys(classInfo.events || {})
+      .map((name) => `'${name}'`);
+
+    return [
+      `Mock.define('${className}', {`,
+      `  methods = {`,
+      ...methods,
+      `  },`,
+      `  events = ${this.buildList(events)},`,
+      `})`,
+    ].join('\n');
+  }
+
+  /**
+   * Builds a Lua list
+   * @param items The Lua code of each item
+   */
+  private buildList(items: string[]): string {
+    return items.length > 0 ? `{ ${items.join(', ')} }` : '{}';
+  }
+
+  /**
+   * Builds the provided Codex into a Lua file with the mock definitions and globals
+   */
+  build(): string {
+    // This is where we'll store everything
+    const lua: string[] = [
+      '-- Mocks for the Dual Universe API, generated from the Codex, requires lua/Mocks.lua',
+    ];
+
+    // Builds classes
+    CLI.print(`Building mock classes...`);
+    for (let className in this.codex.classes || {}) {
+      lua.push(this.buildClassDefinition(className));
+    }
+
+    // Builds globals
+    CLI.print(`Building mock globals...`);
+    for (let globalName in this.codex.globals || {}) {
+      lua.push(`Mock.global('${globalName}', '${(this.codex.globals || {})[globalName].type}')`);
+    }
+
+    // Returns our finished Lua
+    return lua.join('\n\n');
+  }
+}
\ No newline at end of file
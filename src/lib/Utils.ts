@@ -56,4 +56,26 @@ export default class Utils {
     // Does actual replacement of data
     return str.replace(regex, () => data.shift()!);
   }
+
+  /**
+   * Creates a code frame, showing a certain line of code along with its surrounding lines
+   * @param code The full code
+   * @param line The line being highlighted, starting at 1
+   * @param context How many lines to show before and after the highlighted line
+   */
+  static createCodeFrame(code: string, line: number, context: number = 2): string {
+    const lines = code.split('\n');
+    const start = Math.max(1, line - context);
+    const end = Math.min(lines.length, line + context);
+    const gutterSize = end.toString().length;
+
+    // Formats each of the lines, marking the highlighted one
+    const frame: string[] = [];
+    for (let current = start; current <= end; current++) {
+      const marker = current == line ? '>' : ' ';
+      frame.push(`${marker} ${current.toString().padStart(gutterSize)} | ${lines[current - 1]}`);
+    }
+
+    return frame.join('\n');
+  }
 }
\ No newline at end of file
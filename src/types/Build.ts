@@ -2,6 +2,7 @@ import ColorScheme from "../lib/ColorScheme";
 import BuildLinkedElement from "./BuildLinkedElement";
 import BuildTarget from "./BuildTarget";
 import ElementTypes from "./ElementType";
+import SizeBudget, { SizeBudgetSet } from "./SizeBudget";
 import { SimpleMap } from "./SimpleMap";
 
 export enum BuildType {
@@ -21,6 +22,12 @@ export type BuildOptions = {
 
   // Should we compress the script output?
   compress: boolean,
+
+  // Should we allow files to require each other in a loop? Only works with package.preload
+  allowCircularRequires: boolean,
+
+  // Should we remove functions never used from the tables returned by required files?
+  treeShake: boolean,
 };
 
 export default class Build {
@@ -54,6 +61,11 @@ export default class Build {
    */
   readonly options: BuildOptions;
 
+  /**
+   * Size budgets for the outputs of this script, overriding the ones on the build target
+   */
+  budgets: SizeBudgetSet = {};
+
   /**
    * Gets the default build options
    */
@@ -66,6 +78,8 @@ export default class Build {
           preload: false,
           helpers: false,
           compress: false,
+          allowCircularRequires: false,
+          treeShake: false,
         };
       // Control Units (default)
       case BuildType.ControlUnit:
@@ -75,6 +89,8 @@ export default class Build {
           preload: true,
           helpers: true,
           compress: false,
+          allowCircularRequires: false,
+          treeShake: false,
         };
     }
   }
@@ -92,6 +108,7 @@ export default class Build {
     this.title = data.title;
     this.type = data.type || BuildType.ControlUnit;
     this.events = data.events || {};
+    this.budgets = SizeBudget.parseSet(data.budgets, `build ${data.name}`);
 
     // Parses slots
     (Array.isArray(data.slots) ? data.slots : Object.values(data.slots || {})).forEach((slot: any) => {
@@ -106,6 +123,8 @@ export default class Build {
       preload: (undefined !== data.noPreload && !data.noPreload) || defaultOptions.preload,
       helpers: (undefined !== data.noHelpers && !data.noHelpers) || defaultOptions.helpers,
       compress: (undefined !== data.compress && data.compress) || defaultOptions.compress,
+      allowCircularRequires: (undefined !== data.allowCircularRequires && data.allowCircularRequires) || defaultOptions.allowCircularRequires,
+      treeShake: (undefined !== data.treeShake && data.treeShake) || defaultOptions.treeShake,
     };
   }
 
@@ -140,6 +159,9 @@ export default class Build {
       name: this.name,
       type: this.type,
       slots: Object.values(this.linkedElements || {}),
+      budgets: Object.keys(this.budgets).length > 0 ? this.budgets : undefined,
+      allowCircularRequires: this.options.allowCircularRequires || undefined,
+      treeShake: this.options.treeShake || undefined,
     };
   }
   
@@ -1,4 +1,5 @@
 import { CompilerVariableSet } from "./CompilerVariable";
+import SizeBudget, { SizeBudgetSet } from "./SizeBudget";
 
 export default class BuildTarget {
   /**
@@ -16,6 +17,11 @@ export default class BuildTarget {
    */
   minify: boolean = false;
 
+  /**
+   * Whether we should shorten preload keys and the fields of private tables (only for minified targets)
+   */
+  mangle: boolean = false;
+
   /**
    * Whether we should we strip comments
    */
@@ -26,6 +32,11 @@ export default class BuildTarget {
    */
   variables: CompilerVariableSet = {};
 
+  /**
+   * Size budgets for the outputs of all builds on this target
+   */
+  budgets: SizeBudgetSet = {};
+
   /**
    * Hydrates our build target
    * @param data The data for our build target
@@ -37,8 +48,10 @@ export default class BuildTarget {
 
     this.name = data.name;
     this.minify = data.minify || false;
+    this.mangle = data.mangle || false;
     this.handleErrors = data.handleErrors || false;
     this.stripComments = data.stripComments || false;
     this.variables = data.variables || {};
+    this.budgets = SizeBudget.parseSet(data.budgets, `build target ${data.name}`);
   }
 }
\ No newline at end of file
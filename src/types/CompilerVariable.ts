@@ -1,4 +1,4 @@
 import { SimpleMap } from "./SimpleMap";
 
-export type CompilerVariable = string | number | boolean;
+export type CompilerVariable = string | number | boolean | CompilerVariable[] | { [key: string]: CompilerVariable };
 export type CompilerVariableSet = SimpleMap<CompilerVariable>;
\ No newline at end of file
@@ -20,6 +20,11 @@ export default class Project {
    */
   description: string = '';
 
+  /**
+   * The project version, optional
+   */
+  version?: string;
+
   /**
    * The path to the source directory
    */
@@ -82,6 +87,7 @@ export default class Project {
     // Hydrates our instance
     project.name = projectJSON.name;
     project.description = projectJSON.description;
+    project.version = projectJSON.version;
     project.sourcePath = projectJSON.sourcePath || 'src';
     project.outputPath = projectJSON.outputPath || 'out';
     project.projectFormat = projectJSON.cli?.fmtVersion || 1;
@@ -160,6 +166,7 @@ export default class Project {
       },
       name: this.name,
       description: this.description,
+      ...(this.version ? { version: this.version } : {}),
       sourcePath: this.sourcePath,
       outputPath: this.outputPath,
       libs: Object.values(this.projectLibs).map((lib) => lib.toJSON()),
@@ -190,6 +197,13 @@ export default class Project {
     return path.join(this.projectDirectory, 'libs');
   }
 
+  /**
+   * Gets the project's temp directory, used for caches and other generated files
+   */
+  getTempDirectory(): string {
+    return path.join(this.projectDirectory, 'temp');
+  }
+
   /**
    * Gets the project's utility directory
    */
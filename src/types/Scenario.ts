@@ -0,0 +1,120 @@
+import fs from "fs";
+import YAML from "yaml";
+import ColorScheme from "../lib/ColorScheme";
+import { SimpleMap } from "./SimpleMap";
+
+/**
+ * A single step of a scenario, triggering an event on a slot
+ */
+export type ScenarioStep = {
+  // When the event happens, in seconds since the script started
+  at: number,
+
+  // The slot and event being triggered, like "unit" and "onTimer"
+  slot: string,
+  event: string,
+
+  // The event arguments, either as values or as Lua code (when written as "unit.onTimer('a')")
+  args: any[],
+  argsCode: string | null,
+
+  // How many times the event is triggered, and how many seconds pass between each of them
+  repeat: number,
+  interval: number,
+};
+
+export default class Scenario {
+  /**
+   * The values returned by the mocks, by slot and then by method
+   */
+  readonly mocks: SimpleMap<SimpleMap<any>> = {};
+
+  /**
+   * The events triggered, in order
+   */
+  readonly steps: ScenarioStep[] = [];
+
+  /**
+   * Hydrates our scenario
+   * @param data The data for our scenario
+   * @param owner Where the scenario comes from, used on error messages
+   */
+  constructor(data: any, owner: string) {
+    if (!data || 'object' != typeof data || !Array.isArray(data.events)) {
+      throw new Error(`Invalid scenario ${ColorScheme.highlight(owner)}, expected an object with a list of ${ColorScheme.highlight('events')}`);
+    }
+
+    // Parses mocked values
+    for (const slot in data.mocks || {}) {
+      if (!data.mocks[slot] || 'object' != typeof data.mocks[slot]) {
+        throw new Error(`Invalid mocks for slot ${ColorScheme.highlight(slot)} on scenario ${ColorScheme.highlight(owner)}, expected an object with the value returned by each method`);
+      }
+      this.mocks[slot] = data.mocks[slot];
+    }
+
+    // Parses the steps, anything without a time happens along with the previous step
+    let time = 0;
+    data.events.forEach((entry: any, idx: number) => {
+      const step = Scenario.parseStep(entry, `event #${idx + 1} of scenario ${ColorScheme.highlight(owner)}`);
+      if (null === step.at) {
+        step.at = time;
+      } else if (step.at < time) {
+        throw new Error(`Invalid time on event #${idx + 1} of scenario ${ColorScheme.highlight(owner)}, events must be in order`);
+      }
+      time = step.at + step.interval * (step.repeat - 1);
+      this.steps.push(step as ScenarioStep);
+    });
+  }
+
+  /**
+   * Parses a single step, which can be either an event string or an object
+   * @param entry The step entry
+   * @param owner Where the step comes from, used on error messages
+   */
+  private static parseStep(entry: any, owner: string): Omit<ScenarioStep, 'at'> & { at: number | null } {
+    // Text input is a shorthand for system.onInputText
+    if (entry && 'object' == typeof entry && undefined !== entry.input) {
+      return this.parseStep({ ...entry, input: undefined, event: 'system.onInputText', args: [`${entry.input}`] }, owner);
+    }
+
+    const settings = 'string' == typeof entry ? { event: entry } : entry;
+    const parsed = /^\s*([A-Za-z_]\w*)\.([A-Za-z_]\w*)\s*(?:\(([\s\S]*)\))?\s*$/.exec(settings?.event || '');
+    if (!parsed) {
+      throw new Error(`Invalid ${owner}, expected an event like ${ColorScheme.highlight(`unit.onTimer('a')`)} or an object with an ${ColorScheme.highlight('event')}`);
+    }
+    if (undefined !== settings.args && !Array.isArray(settings.args)) {
+      throw new Error(`Invalid ${ColorScheme.highlight('args')} on ${owner}, expected a list`);
+    }
+    if (undefined !== settings.at && !('number' == typeof settings.at && settings.at >= 0)) {
+      throw new Error(`Invalid ${ColorScheme.highlight('at')} on ${owner}, expected a time in seconds`);
+    }
+    if (undefined !== settings.repeat && !(Number.isInteger(settings.repeat) && settings.repeat > 0)) {
+      throw new Error(`Invalid ${ColorScheme.highlight('repeat')} on ${owner}, expected a positive number`);
+    }
+    if (undefined !== settings.interval && !('number' == typeof settings.interval && settings.interval >= 0)) {
+      throw new Error(`Invalid ${ColorScheme.highlight('interval')} on ${owner}, expected a time in seconds`);
+    }
+
+    const argsCode = (parsed[3] || '').trim();
+    return {
+      at: settings.at ?? null,
+      slot: parsed[1],
+      event: parsed[2],
+      args: settings.args || [],
+      argsCode: argsCode.length > 0 ? argsCode : null,
+      repeat: settings.repeat || 1,
+      interval: settings.interval || 0,
+    };
+  }
+
+  /**
+   * Loads a scenario from a YAML or JSON file
+   * @param file The scenario file
+   */
+  static load(file: string): Scenario {
+    if (!fs.existsSync(file)) {
+      throw new Error(`Scenario file not found: ${ColorScheme.highlight(file)}`);
+    }
+    return new Scenario(YAML.parse(fs.readFileSync(file).toString()), file);
+  }
+}
\ No newline at end of file
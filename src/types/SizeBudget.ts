@@ -0,0 +1,118 @@
+import ColorScheme from "../lib/ColorScheme";
+
+/**
+ * The outputs which can have a size budget
+ */
+export enum SizeBudgetOutput {
+  JSON = 'json',
+  CONF = 'conf',
+  Lua = 'lua',
+}
+
+/**
+ * What happens when an output goes over its budget
+ */
+export enum SizeBudgetSeverity {
+  Warning = 'warn',
+  Error = 'error',
+}
+
+/**
+ * The budget settings as set on project.json, any missing values are inherited
+ */
+export type SizeBudgetSettings = {
+  maxBytes?: number,
+  severity?: SizeBudgetSeverity,
+  headroom?: number,
+};
+
+/**
+ * The budget settings for each of the outputs
+ */
+export type SizeBudgetSet = Partial<Record<SizeBudgetOutput, SizeBudgetSettings>>;
+
+export default class SizeBudget {
+  /**
+   * How many bytes the game accepts on each of the outputs
+   */
+  static readonly gameLimits: Record<SizeBudgetOutput, number> = {
+    [SizeBudgetOutput.JSON]: 200000,
+    [SizeBudgetOutput.CONF]: 180000,
+    [SizeBudgetOutput.Lua]: 50000,
+  };
+
+  /**
+   * How many bytes the game accepts on this output
+   */
+  readonly gameLimit: number;
+
+  /**
+   * The maximum size of the output, in bytes
+   */
+  readonly maxBytes: number;
+
+  /**
+   * Whether going over the budget is a warning or fails the build
+   */
+  readonly severity: SizeBudgetSeverity;
+
+  /**
+   * How close (in percentage) we can get to the budget before warning about it
+   */
+  readonly headroom: number;
+
+  /**
+   * Creates the budget for an output, later settings override earlier ones
+   * @param output The output being measured
+   * @param settings The settings, usually from the build target and then from the build
+   */
+  constructor(output: SizeBudgetOutput, ...settings: (SizeBudgetSettings | undefined)[]) {
+    const merged: SizeBudgetSettings = Object.assign({}, ...settings);
+
+    this.gameLimit = SizeBudget.gameLimits[output];
+    this.maxBytes = merged.maxBytes ?? this.gameLimit;
+    this.severity = merged.severity ?? SizeBudgetSeverity.Warning;
+    this.headroom = merged.headroom ?? 10;
+  }
+
+  /**
+   * Parses and validates the "budgets" entry of a build or build target
+   * @param data The budgets entry, each output can have either its settings or just the maximum bytes
+   * @param owner What the budgets belong to, used on error messages
+   */
+  static parseSet(data: any, owner: string): SizeBudgetSet {
+    const budgets: SizeBudgetSet = {};
+    const outputs = Object.values(SizeBudgetOutput) as string[];
+    const severities = Object.values(SizeBudgetSeverity) as string[];
+
+    for (const output in data || {}) {
+      if (!outputs.includes(output)) {
+        throw new Error(`Invalid size budget output ${ColorScheme.highlight(output)} on ${owner}, valid options: ${outputs.map((output) => ColorScheme.highlight(output)).join(', ')}`);
+      }
+
+      // Numbers are a shorthand for setting only the maximum size
+      const settings = 'number' == typeof data[output] ? { maxBytes: data[output] } : data[output];
+      if (!settings || 'object' != typeof settings) {
+        throw new Error(`Invalid size budget for ${ColorScheme.highlight(output)} on ${owner}, expected a number of bytes or an object`);
+      }
+      if (undefined !== settings.maxBytes && !(Number.isInteger(settings.maxBytes) && settings.maxBytes > 0)) {
+        throw new Error(`Invalid ${ColorScheme.highlight('maxBytes')} for ${ColorScheme.highlight(output)} size budget on ${owner}, expected a positive number of bytes`);
+      }
+      if (undefined !== settings.severity && !severities.includes(settings.severity)) {
+        throw new Error(`Invalid ${ColorScheme.highlight('severity')} for ${ColorScheme.highlight(output)} size budget on ${owner}, valid options: ${severities.map((severity) => ColorScheme.highlight(severity)).join(', ')}`);
+      }
+      if (undefined !== settings.headroom && !('number' == typeof settings.headroom && settings.headroom >= 0 && settings.headroom < 100)) {
+        throw new Error(`Invalid ${ColorScheme.highlight('headroom')} for ${ColorScheme.highlight(output)} size budget on ${owner}, expected a percentage between 0 and 100`);
+      }
+
+      // Only values actually set are kept, so the others can be inherited
+      const budget: SizeBudgetSettings = {};
+      if (undefined !== settings.maxBytes) budget.maxBytes = settings.maxBytes;
+      if (undefined !== settings.severity) budget.severity = settings.severity;
+      if (undefined !== settings.headroom) budget.headroom = settings.headroom;
+      budgets[output as SizeBudgetOutput] = budget;
+    }
+
+    return budgets;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,65 @@
+/**
+ * Minimal typings for the parts of Fengari (a Lua 5.3 VM written in JavaScript) we use
+ */
+declare module 'fengari' {
+  type LuaState = any;
+  type LuaString = Uint8Array;
+  type LuaJSFunction = (L: LuaState) => number;
+
+  export function to_luastring(value: string): LuaString;
+  export function to_jsstring(value: LuaString): string;
+
+  export const lua: {
+    LUA_OK: number,
+    LUA_MULTRET: number,
+    LUA_REGISTRYINDEX: number,
+    LUA_TNIL: number,
+    LUA_TBOOLEAN: number,
+    LUA_TNUMBER: number,
+    LUA_TSTRING: number,
+    LUA_TTABLE: number,
+    LUA_TFUNCTION: number,
+    LUA_MASKCOUNT: number,
+    lua_close(L: LuaState): void,
+    lua_gettop(L: LuaState): number,
+    lua_settop(L: LuaState, index: number): void,
+    lua_pop(L: LuaState, count: number): void,
+    lua_type(L: LuaState, index: number): number,
+    lua_pcall(L: LuaState, nargs: number, nresults: number, msgh: number): number,
+    lua_getglobal(L: LuaState, name: LuaString): number,
+    lua_setglobal(L: LuaState, name: LuaString): void,
+    lua_getfield(L: LuaState, index: number, name: LuaString): number,
+    lua_setfield(L: LuaState, index: number, name: LuaString): void,
+    lua_settable(L: LuaState, index: number): void,
+    lua_pushnil(L: LuaState): void,
+    lua_pushboolean(L: LuaState, value: boolean): void,
+    lua_pushnumber(L: LuaState, value: number): void,
+    lua_pushinteger(L: LuaState, value: number): void,
+    lua_pushstring(L: LuaState, value: LuaString): void,
+    lua_pushliteral(L: LuaState, value: string): void,
+    lua_pushjsfunction(L: LuaState, fn: LuaJSFunction): void,
+    lua_pushvalue(L: LuaState, index: number): void,
+    lua_newtable(L: LuaState): void,
+    lua_next(L: LuaState, index: number): number,
+    lua_toboolean(L: LuaState, index: number): boolean,
+    lua_tonumber(L: LuaState, index: number): number,
+    lua_tointeger(L: LuaState, index: number): number,
+    lua_tojsstring(L: LuaState, index: number): string,
+    lua_isnoneornil(L: LuaState, index: number): boolean,
+    lua_error(L: LuaState): number,
+    lua_sethook(L: LuaState, fn: ((L: LuaState, ar: any) => void) | null, mask: number, count: number): void,
+  };
+
+  export const lauxlib: {
+    luaL_newstate(): LuaState,
+    luaL_loadbuffer(L: LuaState, buffer: LuaString, size: number | null, name: LuaString): number,
+    luaL_tolstring(L: LuaState, index: number): LuaString,
+    luaL_traceback(L: LuaState, L1: LuaState, message: LuaString | null, level: number): void,
+    luaL_error(L: LuaState, format: LuaString, ...args: any[]): number,
+    luaL_where(L: LuaState, level: number): void,
+  };
+
+  export const lualib: {
+    luaL_openlibs(L: LuaState): void,
+  };
+}
\ No newline at end of file